@@ -0,0 +1,74 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { BUILTIN_RULE_NAMES, BUILTIN_RULES } from '../builtins';
+import { ERROR_CODES } from '../rules';
+import { Rule, RuleContext } from '../types';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('rules', () => {
+  const bannedWords: Rule = {
+    name: 'banned-words',
+    check: ({ components }) => {
+      const word = ['wip', 'temp'].find((banned) => components?.description.split(' ').includes(banned));
+      return word
+        ? [{ code: 'BANNED_WORD', message: `Description must not contain "${word}"`, severity: 'error' }]
+        : [];
+    },
+  };
+
+  test('should give every built-in rule a unique name', () => {
+    expect(new Set(BUILTIN_RULE_NAMES).size).toBe(BUILTIN_RULES.length);
+  });
+
+  test('should run custom rules after the built-in rules', () => {
+    const validator = new ConventionalCommitValidator({ rules: [bannedWords] });
+    const result = validator.validate('Feat: add wip login');
+    expect(result.errors.map((e) => e.code)).toEqual(['TYPE_NOT_LOWERCASE', 'BANNED_WORD']);
+    expect(result.errors[1].message).toBe('Description must not contain "wip"');
+    expect(validator.validate('feat: add login').isValid).toBe(true);
+  });
+
+  test('should pass the raw title, components and options to rules', () => {
+    const contexts: RuleContext[] = [];
+    const spy: Rule = { name: 'spy', check: (context) => (contexts.push(context), []) };
+    new ConventionalCommitValidator({ rules: [spy], maxDescriptionLength: 72 }).validate('feat(api)!: drop v1');
+    new ConventionalCommitValidator({ rules: [spy] }).validate('drop v1');
+
+    expect(contexts[0]).toMatchObject({
+      title: 'feat(api)!: drop v1',
+      components: { type: 'feat', scope: 'api', isBreakingChange: true, description: ' drop v1' },
+      options: { strict: true, maxDescriptionLength: 72 },
+    });
+    expect(contexts[1].components).toBeUndefined();
+  });
+
+  test('should apply configured severities to custom error codes', () => {
+    const validator = new ConventionalCommitValidator({ rules: [bannedWords], severity: { BANNED_WORD: 'warning' } });
+    const result = validator.validate('feat: add wip login');
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'BANNED_WORD', severity: 'warning' })]);
+  });
+
+  test('should disable built-in and custom rules by name', () => {
+    const validator = new ConventionalCommitValidator({
+      rules: [bannedWords],
+      disabledRules: ['type-case', 'banned-words'],
+    });
+    expect(validator.validate('Feat: add wip login').isValid).toBe(true);
+    expect(validator.validate('Feat!(api): add wip login').errors.map((e) => e.code))
+      .toEqual([ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION]);
+  });
+});
@@ -0,0 +1,65 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { calculateBump, DEFAULT_BUMP_TYPES, getBump, getCommitsBump, getMessageBump, maxBump } from '../bump';
+import { createTitleParser } from '../validator';
+import { Bump } from '../types';
+
+describe('semver bump', () => {
+  test.each([
+    ['feat', false, 'minor'],
+    ['fix', false, 'patch'],
+    ['perf', false, 'patch'],
+    ['docs', false, 'none'],
+    ['Feat', false, 'minor'],
+    ['chore', true, 'major'],
+    ['constructor', false, 'none'],
+  ] as [string, boolean, Bump][])('should map %s (breaking: %s) to %s', (type, isBreakingChange, expected) => {
+    expect(getBump({ type, isBreakingChange, description: 'x' })).toBe(expected);
+  });
+
+  test('should use a configured mapping', () => {
+    const bumpTypes: Record<string, Bump> = { feat: 'minor', deps: 'patch' };
+    expect(getBump({ type: 'deps', isBreakingChange: false, description: 'x' }, bumpTypes)).toBe('patch');
+    expect(getBump({ type: 'fix', isBreakingChange: false, description: 'x' }, bumpTypes)).toBe('none');
+  });
+
+  test('should read past an emoji and parse titles with a custom title pattern', () => {
+    expect(getMessageBump('✨ feat: add login')).toBe('minor');
+    const parser = createTitleParser({ titlePattern: /^(?<type>\w+) \| (?<description>.+)$/ });
+    expect(getCommitsBump([{ sha: 'a', message: 'fix | handle timeout' }], DEFAULT_BUMP_TYPES, parser)).toBe('patch');
+    expect(getMessageBump('fix: handle timeout', DEFAULT_BUMP_TYPES, parser)).toBe('none');
+  });
+
+  test('should count BREAKING CHANGE footers as major', () => {
+    expect(getMessageBump('fix: drop v1 endpoints\n\nBREAKING CHANGE: v1 is gone')).toBe('major');
+    expect(getMessageBump('fix: drop v1 endpoints\n\nRefs: #12')).toBe('patch');
+    expect(getMessageBump('drop v1 endpoints')).toBe('none');
+  });
+
+  test('should return the highest bump of all changes', () => {
+    expect(maxBump([])).toBe('none');
+    expect(maxBump(['patch', 'minor', 'patch'])).toBe('minor');
+    expect(calculateBump(['fix: a', { type: 'feat', isBreakingChange: false, description: 'b' }, 'docs: c'])).toBe('minor');
+  });
+
+  test('should calculate the bump of a list of commits', () => {
+    expect(getCommitsBump([
+      { sha: 'a', message: 'fix: resolve timeout' },
+      { sha: 'b', message: 'feat(api)!: remove v1' },
+    ])).toBe('major');
+    expect(getCommitsBump([{ sha: 'a', message: 'chore: tidy' }])).toBe('none');
+  });
+});
@@ -0,0 +1,84 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_CHANGELOG_SECTIONS,
+  DEFAULT_HIDDEN_TYPES,
+  generateChangelog,
+  parseChangelogEntries,
+} from '../changelog';
+import { parseGitLog } from '../commits';
+import { ChangelogOptions } from '../types';
+import { createTitleParser } from '../validator';
+
+describe('changelog', () => {
+  const options: ChangelogOptions = { sections: DEFAULT_CHANGELOG_SECTIONS, hidden: DEFAULT_HIDDEN_TYPES };
+  const gitLog = fs.readFileSync(path.join(__dirname, 'fixtures', 'git-log.txt'), 'utf8');
+
+  test('should parse conventional changes and leave out the others', () => {
+    expect(parseChangelogEntries([
+      { sha: 'abc1234def', message: 'Feat(api): add v2 endpoints' },
+      'Merge branch main',
+      'fix!: drop v1 endpoints',
+      'refactor: move handlers\n\nBREAKING CHANGE: handlers moved to api/',
+    ])).toEqual([
+      { type: 'feat', scope: 'api', description: 'add v2 endpoints', sha: 'abc1234def', breaking: undefined },
+      { type: 'fix', scope: undefined, description: 'drop v1 endpoints', sha: undefined, breaking: 'drop v1 endpoints' },
+      { type: 'refactor', scope: undefined, description: 'move handlers', sha: undefined, breaking: 'handlers moved to api/' },
+    ]);
+  });
+
+  test('should render git log output as Markdown', () => {
+    expect(generateChangelog(parseGitLog(gitLog), options, 'v1.4.0')).toBe([
+      '## v1.4.0',
+      '',
+      '### ⚠ BREAKING CHANGES',
+      '',
+      '- **meta:**',
+      '  - the users.db file is no longer read (5d6e7f8)',
+      '',
+      '### Features',
+      '',
+      '- **query:**',
+      '  - support LIMIT in subqueries (4e1c2a9)',
+      '',
+      '### Bug Fixes',
+      '',
+      '- handle empty result sets (7c8d9e0)',
+      '- **storage:**',
+      '  - flush shards before compaction (1a2b3c4)',
+    ].join('\n'));
+  });
+
+  test('should use configured section titles and hidden types', () => {
+    const changelog = generateChangelog(
+      ['docs: describe retention policies', 'feat: add login', 'chore: bump deps'],
+      { sections: { docs: 'Docs', feat: 'New' }, hidden: [] },
+    );
+    expect(changelog).toBe('### Docs\n\n- describe retention policies\n\n### New\n\n- add login');
+  });
+
+  test('should parse entries with the parser of a custom title pattern', () => {
+    const parser = createTitleParser({ titlePattern: /^(?<type>\w+) \| (?<description>.+)$/ });
+    expect(parseChangelogEntries(['feat | add login', 'feat: add logout'], parser))
+      .toEqual([{ type: 'feat', scope: undefined, description: 'add login', sha: undefined, breaking: undefined }]);
+  });
+
+  test('should report when there is nothing to list', () => {
+    expect(generateChangelog(['chore: bump deps', 'wip'], options)).toBe('No notable changes.');
+  });
+});
@@ -0,0 +1,178 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliIO, EXIT_CODES, runCli } from '../cli';
+
+describe('cli', () => {
+  let workspace: string;
+  let stdout: string;
+  let stderr: string;
+
+  const createIO = (stdin?: string): CliIO => ({
+    cwd: workspace,
+    stdinIsTTY: stdin === undefined,
+    readStdin: async () => stdin ?? '',
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  });
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-title-checker-'));
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('should exit 0 for a valid title argument', async () => {
+    await expect(runCli(['feat: add login'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toContain('✅ Title "feat: add login" conforms to Conventional Commits specification');
+  });
+
+  test('should exit 1 and print errors for an invalid title', async () => {
+    await expect(runCli(['Feat: Added login.'], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+    expect(stderr).toContain('❌ Title "Feat: Added login." does not conform');
+    expect(stderr).toContain('1. Type must be lowercase');
+    expect(stderr).toContain('💡 Suggested title: feat: add login');
+  });
+
+  test('should read the message from stdin', async () => {
+    await expect(runCli([], createIO('fix: resolve timeout\n'))).resolves.toBe(EXIT_CODES.VALID);
+    await expect(runCli(['-'], createIO('fix: Resolve timeout\n'))).resolves.toBe(EXIT_CODES.INVALID);
+  });
+
+  test('should read a commit message file without comment lines', async () => {
+    const file = path.join(workspace, 'COMMIT_EDITMSG');
+    fs.writeFileSync(file, [
+      '# Please enter the commit message for your changes.',
+      'feat: add login',
+      '',
+      'Support OAuth2.',
+      '# ------------------------ >8 ------------------------',
+      'diff --git a/file b/file',
+    ].join('\n'));
+
+    await expect(runCli(['--edit', file, '--check-body'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+  });
+
+  test('should validate the body with --check-body', async () => {
+    const io = createIO('feat: add login\nSupport OAuth2.');
+    await expect(runCli(['--check-body'], io)).resolves.toBe(EXIT_CODES.INVALID);
+    expect(stderr).toContain('The body must be separated from the header by a blank line');
+  });
+
+  test('should pass merge and autosquash commits with the skip flags', async () => {
+    const file = path.join(workspace, 'COMMIT_EDITMSG');
+    const flags = ['--skip-merge-commits', '--skip-autosquash-commits'];
+
+    fs.writeFileSync(file, "Merge branch 'main' into feature\n# Conflicts:\n#\tsrc/cli.ts\n");
+    await expect(runCli(['--edit', file], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+    await expect(runCli(['--edit', file, ...flags], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toContain('Check skipped: merge commit "Merge branch \'main\' into feature"');
+
+    fs.writeFileSync(file, 'fixup! feat: add login\n');
+    stdout = '';
+    await expect(runCli(['--edit', file, ...flags, '--format', 'json'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    expect(JSON.parse(stdout)).toEqual({ valid: true, skipped: 'fixup or squash commit' });
+
+    await expect(runCli([...flags, 'Added login'], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+  });
+
+  test('should accept the same options as the action', async () => {
+    await expect(runCli(['--types', 'deps', 'deps: bump yaml'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    await expect(runCli(['--strict', 'false', 'feat: Add login.'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    await expect(runCli(['--severity', 'NON_IMPERATIVE_MOOD=warning', 'feat: added login'], createIO()))
+      .resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toContain('⚠️  Warnings:');
+    expect(stdout).toContain('1. Description should use imperative mood');
+  });
+
+  test('should apply the commitlint config of the directory and warn about unsupported rules', async () => {
+    fs.writeFileSync(path.join(workspace, '.commitlintrc.json'), JSON.stringify({
+      rules: { 'header-max-length': [2, 'always', 20], 'body-leading-blank': [2, 'always'] },
+    }));
+    await expect(runCli(['feat: add user login'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    await expect(runCli(['feat: add user logins'], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+    expect(stderr).toContain('Title must not exceed 20 characters');
+    expect(stderr).toContain('Warning: .commitlintrc.json: rule "body-leading-blank" is not supported and is ignored');
+  });
+
+  test('should print the JSON result with --format json', async () => {
+    await expect(runCli(['--format', 'json', 'Feat(api): add login'], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+    expect(JSON.parse(stdout)).toMatchObject({
+      valid: false,
+      type: 'Feat',
+      scope: 'api',
+      breaking: false,
+      description: 'add login',
+      errors: [{ code: 'TYPE_NOT_LOWERCASE', severity: 'error' }],
+      suggestedTitle: 'feat(api): add login',
+    });
+    expect(stderr).toBe('');
+  });
+
+  test('should read the repository config file', async () => {
+    fs.mkdirSync(path.join(workspace, '.github'));
+    fs.writeFileSync(path.join(workspace, '.github/pr-title-checker.yml'), 'scopes: [storage]\n');
+    await expect(runCli(['fix(query): resolve timeout'], createIO())).resolves.toBe(EXIT_CODES.INVALID);
+    expect(stderr).toContain('Scope must be one of: storage');
+  });
+
+  test.each([
+    [['--unknown', 'feat: add login']],
+    [['--max-description-length', '0', 'feat: add login']],
+    [['--edit', 'missing-file']],
+    [['--format', 'xml', 'feat: add login']],
+    [[]],
+  ])('should exit 2 on usage errors: %j', async (args) => {
+    await expect(runCli(args, createIO())).resolves.toBe(EXIT_CODES.USAGE);
+    expect(stderr).not.toBe('');
+  });
+
+  test('should generate a changelog from git log on stdin', async () => {
+    const gitLog = fs.readFileSync(path.join(__dirname, 'fixtures', 'git-log.txt'), 'utf8');
+    await expect(runCli(['changelog', '--title', 'v1.4.0', '--hidden-types', 'chore'], createIO(gitLog)))
+      .resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toContain('## v1.4.0\n\n### ⚠ BREAKING CHANGES');
+    expect(stdout).toContain('### Documentation\n\n- describe retention policies (0f1e2d3)');
+  });
+
+  test('should read changelog sections from the config file', async () => {
+    fs.mkdirSync(path.join(workspace, '.github'));
+    fs.writeFileSync(path.join(workspace, '.github', 'pr-title-checker.yml'), 'changelog_sections:\n  fix: Fixed\n');
+    await expect(runCli(['changelog'], createIO('fix: handle empty result sets\nfeat: add login\n')))
+      .resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toBe('### Fixed\n\n- handle empty result sets\n');
+  });
+
+  test('should require git log output for the changelog', async () => {
+    await expect(runCli(['changelog'], createIO())).resolves.toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('No git log output on stdin');
+  });
+
+  test('should print help', async () => {
+    await expect(runCli(['--help'], createIO())).resolves.toBe(EXIT_CODES.VALID);
+    expect(stdout).toContain('Usage: pr-title-checker');
+  });
+});
@@ -0,0 +1,106 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { buildComment, COMMENT_MARKER, syncComment } from '../comment';
+import { resolveOptions } from '../config';
+import { ConventionalCommitFixer } from '../fixer';
+import { OctokitPullRequestClient } from '../github';
+import { ResolvedOptions } from '../types';
+import { ConventionalCommitValidator } from '../validator';
+import { MockOctokit } from './mocks/octokit';
+
+describe('sticky comment', () => {
+  const validator = new ConventionalCommitValidator({ severity: { NON_IMPERATIVE_MOOD: 'warning' } });
+  const fixer = new ConventionalCommitFixer({ severity: { NON_IMPERATIVE_MOOD: 'warning' } });
+
+  describe('buildComment', () => {
+    const options: ResolvedOptions = { ...resolveOptions(() => '', __dirname), allowedTypes: ['feat', 'fix'] };
+
+    test('should render the marker, issues table and the suggested title', () => {
+      const title = 'Feat: Added login.';
+      const result = validator.validate(title);
+      const body = buildComment({ title, result, fix: fixer.fix(title, result), options });
+
+      expect(body.startsWith(COMMENT_MARKER)).toBe(true);
+      expect(body).toContain('Title: `Feat: Added login.`');
+      expect(body).toContain('| ❌ error | `TYPE_NOT_LOWERCASE` | Type must be lowercase | `feat: add new feature` |');
+      expect(body).toContain('| ⚠️ warning | `NON_IMPERATIVE_MOOD` |');
+      expect(body).toContain('💡 **Suggested title:** `feat: add login`');
+      expect(body).toContain('- `fix(api): resolve timeout issue`');
+    });
+
+    test('should escape titles containing backticks', () => {
+      const title = 'Fix: handle `null`';
+      const body = buildComment({ title, result: validator.validate(title), options });
+      expect(body).toContain('Title: `` Fix: handle `null` ``');
+      expect(body).not.toContain('Suggested title');
+    });
+  });
+
+  describe('syncComment', () => {
+    let octokit: MockOctokit;
+    let client: OctokitPullRequestClient;
+
+    beforeEach(() => {
+      octokit = new MockOctokit();
+      octokit.addComment('LGTM');
+      client = new OctokitPullRequestClient(octokit.asOctokit(), { owner: 'openGemini', repo: 'openGemini' }, 42);
+    });
+
+    test('should create the comment on the first failure', async () => {
+      await expect(syncComment(client, `${COMMENT_MARKER}\nfailed`)).resolves.toBe('created');
+      expect(octokit.comments).toHaveLength(2);
+      expect(octokit.comments[1].body).toBe(`${COMMENT_MARKER}\nfailed`);
+    });
+
+    test('should update the existing comment found by the marker', async () => {
+      await syncComment(client, `${COMMENT_MARKER}\nfirst`);
+      await expect(syncComment(client, `${COMMENT_MARKER}\nsecond`)).resolves.toBe('updated');
+      expect(octokit.comments).toHaveLength(2);
+      expect(octokit.comments[1].body).toBe(`${COMMENT_MARKER}\nsecond`);
+    });
+
+    test('should leave an identical comment untouched', async () => {
+      await syncComment(client, `${COMMENT_MARKER}\nsame`);
+      await expect(syncComment(client, `${COMMENT_MARKER}\nsame`)).resolves.toBe('unchanged');
+      expect(octokit.calls).not.toContain('issues.updateComment');
+    });
+
+    test('should delete the comment once the title passes', async () => {
+      await syncComment(client, `${COMMENT_MARKER}\nfailed`);
+      await expect(syncComment(client)).resolves.toBe('deleted');
+      expect(octokit.comments.map((c) => c.body)).toEqual(['LGTM']);
+    });
+
+    test('should do nothing when the title passes without a previous comment', async () => {
+      await expect(syncComment(client)).resolves.toBe('unchanged');
+      expect(octokit.calls).toEqual(['users.getAuthenticated', 'issues.listComments']);
+    });
+
+    test('should leave a comment with the marker written by someone else', async () => {
+      octokit.addComment(`${COMMENT_MARKER}\npasted`);
+      await expect(syncComment(client, `${COMMENT_MARKER}\nfailed`)).resolves.toBe('created');
+      await expect(syncComment(client)).resolves.toBe('deleted');
+      expect(octokit.comments.map((c) => c.body)).toEqual(['LGTM', `${COMMENT_MARKER}\npasted`]);
+    });
+
+    test('should find the comment of the user behind a personal access token', async () => {
+      octokit.login = 'gemini-bot';
+      octokit.addComment(`${COMMENT_MARKER}\nold`, 'gemini-bot');
+      await expect(syncComment(client, `${COMMENT_MARKER}\nnew`)).resolves.toBe('updated');
+      expect(octokit.comments[1]).toMatchObject({ body: `${COMMENT_MARKER}\nnew`, user: { login: 'gemini-bot' } });
+    });
+  });
+});
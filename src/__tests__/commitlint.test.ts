@@ -0,0 +1,74 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { mapCommitlintConfig } from '../commitlint';
+
+describe('commitlint', () => {
+  const map = (rules: Record<string, unknown>) => mapCommitlintConfig({ rules }, '.commitlintrc.json');
+
+  test('should map the supported rules onto options and severities', () => {
+    expect(map({
+      'type-enum': [2, 'always', ['feat', 'fix']],
+      'scope-enum': [1, 'always', ['api']],
+      'subject-case': [1, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+      'subject-full-stop': [2, 'never', '.'],
+      'subject-max-length': [2, 'always', 60],
+      'header-max-length': [2, 'always', 72],
+      'type-empty': [2, 'never'],
+    })).toEqual({
+      config: { types: ['feat', 'fix'], scopes: ['api'], max_description_length: 60, max_header_length: 72 },
+      severity: {
+        INVALID_TYPE: 'error',
+        INVALID_SCOPE: 'warning',
+        DESCRIPTION_NOT_LOWERCASE: 'warning',
+        DESCRIPTION_ENDS_WITH_PERIOD: 'error',
+        DESCRIPTION_TOO_LONG: 'error',
+        HEADER_TOO_LONG: 'error',
+      },
+      warnings: [],
+    });
+  });
+
+  test('should turn off the check of a disabled rule', () => {
+    const options = map({ 'subject-case': [0], 'header-max-length': [0, 'always', 72] });
+    expect(options.severity).toEqual({ DESCRIPTION_NOT_LOWERCASE: 'off', HEADER_TOO_LONG: 'off' });
+    expect(options.config).toEqual({});
+  });
+
+  test('should allow any scope with an empty scope list', () => {
+    expect(map({ 'scope-enum': [2, 'always', []] }).config).toEqual({});
+  });
+
+  test('should warn about unsupported rules and settings', () => {
+    expect(map({
+      'body-max-line-length': [2, 'always', 100],
+      'subject-case': [2, 'always', 'sentence-case'],
+      'type-empty': [0],
+      'scope-case': 'lower-case',
+    }).warnings).toEqual([
+      '.commitlintrc.json: rule "body-max-line-length" is not supported and is ignored',
+      '.commitlintrc.json: rule "subject-case" is not supported with "always "sentence-case"" and is ignored',
+      '.commitlintrc.json: rule "type-empty" is always enforced and cannot be disabled',
+      '.commitlintrc.json: rule "scope-case" must be a [level, applicability, value] array and is ignored',
+    ]);
+  });
+
+  test('should warn that shared configs are not resolved', () => {
+    const options = mapCommitlintConfig({ extends: '@commitlint/config-conventional' }, 'commitlint.config.js');
+    expect(options.warnings).toEqual([
+      'commitlint.config.js: extends (@commitlint/config-conventional) is not resolved, only the rules of this file are used',
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCommitHeader, isAutosquashCommit, isMergeCommit, parseGitLog, validateCommits } from '../commits';
+import { OctokitPullRequestClient } from '../github';
+import { ConventionalCommitValidator } from '../validator';
+import { MockOctokit } from './mocks/octokit';
+
+describe('commit validation', () => {
+  const validator = new ConventionalCommitValidator({ strict: true });
+
+  test('should use the first line of the message as header', () => {
+    expect(getCommitHeader('feat: add login\r\n\r\nLonger body')).toBe('feat: add login');
+  });
+
+  test('should parse the default git log format', () => {
+    const commits = parseGitLog(fs.readFileSync(path.join(__dirname, 'fixtures', 'git-log.txt'), 'utf8'));
+    expect(commits).toHaveLength(6);
+    expect(commits[0]).toEqual({
+      sha: '4e1c2a9b7d3f5e6a8b9c0d1e2f3a4b5c6d7e8f90',
+      message: 'feat(query): support LIMIT in subqueries',
+      parentCount: undefined,
+    });
+    expect(commits[1].parentCount).toBe(2);
+    expect(commits[2].message).toBe(
+      'fix(storage): flush shards before compaction\n\nCompaction could read a shard that was still being written.\n\nRefs: #40',
+    );
+    expect(commits[3].message).toBe('feat(meta)!: store users in the raft log\n\nBREAKING CHANGE: the users.db file is no longer read');
+  });
+
+  test('should parse oneline and subject-only git log output', () => {
+    expect(parseGitLog('4e1c2a9 feat: add login\n1a2b3c4 fix: typo\n')).toEqual([
+      { sha: '4e1c2a9', message: 'feat: add login' },
+      { sha: '1a2b3c4', message: 'fix: typo' },
+    ]);
+    expect(parseGitLog('feat: add login\n\nfix: typo')).toEqual([
+      { sha: '', message: 'feat: add login' },
+      { sha: '', message: 'fix: typo' },
+    ]);
+  });
+
+  test('should detect merge commits by parent count', () => {
+    expect(isMergeCommit({ sha: 'a', message: 'feat: add login', parentCount: 2 })).toBe(true);
+    expect(isMergeCommit({ sha: 'a', message: 'Merge branch \'main\'', parentCount: 1 })).toBe(false);
+  });
+
+  test('should detect merge commits by header when parents are unknown', () => {
+    expect(isMergeCommit({ sha: 'a', message: 'Merge pull request #12 from user/branch' })).toBe(true);
+    expect(isMergeCommit({ sha: 'a', message: 'Merge branch \'main\' into feature' })).toBe(true);
+    expect(isMergeCommit({ sha: 'a', message: 'fix: merge duplicate series' })).toBe(false);
+  });
+
+  test('should detect fixup and squash commits', () => {
+    expect(isAutosquashCommit({ sha: 'a', message: 'fixup! feat: add login' })).toBe(true);
+    expect(isAutosquashCommit({ sha: 'a', message: 'squash! feat: add login' })).toBe(true);
+    expect(isAutosquashCommit({ sha: 'a', message: 'fix: fixup handling' })).toBe(false);
+  });
+
+  test('should report the result per commit SHA', () => {
+    const results = validateCommits(validator, [
+      { sha: 'aaa', message: 'feat: add login\n\nbody' },
+      { sha: 'bbb', message: 'Added logout' },
+    ]);
+
+    expect(results.map((r) => [r.sha, r.header, r.result?.isValid])).toEqual([
+      ['aaa', 'feat: add login', true],
+      ['bbb', 'Added logout', false],
+    ]);
+  });
+
+  test('should validate the full message when body checking is enabled', () => {
+    const commits = [{ sha: 'aaa', message: 'feat: add login\nSupport OAuth2' }];
+
+    expect(validateCommits(validator, commits)[0].result?.isValid).toBe(true);
+    const result = validateCommits(validator, commits, { checkBody: true })[0].result;
+    expect(result?.errors.map((e) => e.code)).toEqual(['MISSING_BLANK_LINE_AFTER_HEADER']);
+  });
+
+  test('should validate merge and autosquash commits unless skipped', () => {
+    const commits = [
+      { sha: 'aaa', message: 'Merge branch \'main\' into feature' },
+      { sha: 'bbb', message: 'fixup! feat: add login' },
+    ];
+
+    expect(validateCommits(validator, commits).every((r) => r.result?.isValid === false)).toBe(true);
+
+    const results = validateCommits(validator, commits, { skipMergeCommits: true, skipAutosquashCommits: true });
+    expect(results.map((r) => r.skipped)).toEqual(['merge commit', 'fixup or squash commit']);
+    expect(results.every((r) => r.result === undefined)).toBe(true);
+  });
+
+  test('should list PR commits through the client', async () => {
+    const octokit = new MockOctokit();
+    octokit.addCommit('aaa', 'feat: add login');
+    octokit.addCommit('bbb', 'Merge branch \'main\' into feature', 2);
+    const client = new OctokitPullRequestClient(octokit.asOctokit(), { owner: 'openGemini', repo: 'openGemini' }, 42);
+
+    const results = validateCommits(validator, await client.listCommits(), { skipMergeCommits: true });
+    expect(results.map((r) => [r.sha, r.result?.isValid, r.skipped])).toEqual([
+      ['aaa', true, undefined],
+      ['bbb', undefined, 'merge commit'],
+    ]);
+  });
+});
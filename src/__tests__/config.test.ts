@@ -0,0 +1,431 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigError, parseList, resolveOptions } from '../config';
+import { DEFAULT_BUMP_TYPES } from '../bump';
+import { DEFAULT_CHANGELOG_SECTIONS, DEFAULT_HIDDEN_TYPES } from '../changelog';
+import { DEFAULT_TYPE_LABELS } from '../labels';
+import { ALLOWED_TYPES } from '../rules';
+
+describe('config', () => {
+  let workspace: string;
+
+  const writeConfig = (content: string, file = '.github/pr-title-checker.yml') => {
+    const filePath = path.join(workspace, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const inputs = (values: Record<string, string>) => (name: string) => values[name] ?? '';
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-title-checker-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('parseList', () => {
+    test('should split comma and newline separated strings', () => {
+      expect(parseList('feat, fix\ndeps\n', 'types')).toEqual(['feat', 'fix', 'deps']);
+    });
+
+    test('should accept YAML sequences', () => {
+      expect(parseList(['storage', ' query '], 'scopes')).toEqual(['storage', 'query']);
+    });
+
+    test('should return undefined for empty values', () => {
+      expect(parseList('', 'types')).toBeUndefined();
+      expect(parseList(' , ', 'types')).toBeUndefined();
+      expect(parseList(undefined, 'types')).toBeUndefined();
+    });
+
+    test('should reject non-string entries', () => {
+      expect(() => parseList(['feat', 1], 'types')).toThrow(ConfigError);
+    });
+  });
+
+  describe('resolveOptions', () => {
+    test('should use defaults without inputs or config file', () => {
+      const options = resolveOptions(inputs({}), workspace);
+      expect(options).toEqual({
+        strict: true,
+        unicode: false,
+        language: 'en',
+        maxDescriptionLength: 50,
+        allowedTypes: ALLOWED_TYPES,
+        allowedScopes: undefined,
+        revertReference: false,
+        emojiPrefix: false,
+        titlePattern: undefined,
+        emojiTypes: undefined,
+        severity: {},
+        skip: { authors: [], bots: false, labels: [], drafts: false, patterns: [] },
+        labels: { enabled: false, types: DEFAULT_TYPE_LABELS, breaking: 'breaking-change', scope: '' },
+        bumpTypes: DEFAULT_BUMP_TYPES,
+        changelog: { sections: DEFAULT_CHANGELOG_SECTIONS, hidden: DEFAULT_HIDDEN_TYPES },
+      });
+    });
+
+    test('should read types and scopes from the config file', () => {
+      writeConfig([
+        'strict: false',
+        'max_description_length: 72',
+        'types: [feat, fix, deps, security]',
+        'scopes:',
+        '  - storage',
+        '  - query',
+      ].join('\n'));
+
+      const options = resolveOptions(inputs({}), workspace);
+      expect(options.strict).toBe(false);
+      expect(options.maxDescriptionLength).toBe(72);
+      expect(options.allowedTypes).toEqual(['feat', 'fix', 'deps', 'security']);
+      expect(options.allowedScopes).toEqual(['storage', 'query']);
+    });
+
+    test('should let inputs override the config file', () => {
+      writeConfig('types: [feat, fix]\nscopes: [storage]\nmax_description_length: 72\n');
+
+      const options = resolveOptions(inputs({
+        types: 'feat,deps',
+        scopes: 'query',
+        max_description_length: '100',
+      }), workspace);
+      expect(options.allowedTypes).toEqual(['feat', 'deps']);
+      expect(options.allowedScopes).toEqual(['query']);
+      expect(options.maxDescriptionLength).toBe(100);
+    });
+
+    test('should read the config file from a custom path', () => {
+      writeConfig('types: deps', 'config/title.yml');
+
+      const options = resolveOptions(inputs({ config_file: 'config/title.yml' }), workspace);
+      expect(options.allowedTypes).toEqual(['deps']);
+    });
+
+    test('should accept an empty config file', () => {
+      writeConfig('');
+      expect(resolveOptions(inputs({}), workspace).allowedTypes).toEqual(ALLOWED_TYPES);
+    });
+
+    test('should read the language and reject unsupported ones', () => {
+      writeConfig('language: zh-CN\n');
+      expect(resolveOptions(inputs({}), workspace).language).toBe('zh-CN');
+      expect(resolveOptions(inputs({ language: 'en' }), workspace).language).toBe('en');
+      expect(() => resolveOptions(inputs({ language: 'fr' }), workspace))
+        .toThrow('language must be one of: en, zh-CN, got "fr"');
+    });
+
+    test('should reject an invalid max description length', () => {
+      expect(() => resolveOptions(inputs({ max_description_length: 'abc' }), workspace))
+        .toThrow('max_description_length must be a positive number');
+    });
+
+    test('should reject types that cannot be parsed from a title', () => {
+      expect(() => resolveOptions(inputs({ types: 'feat,my-type' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should reject scopes with invalid characters', () => {
+      expect(() => resolveOptions(inputs({ scopes: 'user auth' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should merge severities from the config file and inputs', () => {
+      writeConfig('severity:\n  NON_IMPERATIVE_MOOD: warning\n  DESCRIPTION_TOO_LONG: off\n');
+
+      const options = resolveOptions(inputs({ severity: 'description_too_long=error\nINVALID_SCOPE=warning' }), workspace);
+      expect(options.severity).toEqual({
+        NON_IMPERATIVE_MOOD: 'warning',
+        DESCRIPTION_TOO_LONG: 'error',
+        INVALID_SCOPE: 'warning',
+      });
+    });
+
+    test('should reject unknown error codes and levels', () => {
+      expect(() => resolveOptions(inputs({ severity: 'NOT_A_RULE=off' }), workspace)).toThrow(ConfigError);
+      expect(() => resolveOptions(inputs({ severity: 'NON_IMPERATIVE_MOOD=info' }), workspace)).toThrow(ConfigError);
+      expect(() => resolveOptions(inputs({ severity: 'NON_IMPERATIVE_MOOD' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should read skip rules from the config file and inputs', () => {
+      writeConfig([
+        'ignore_authors: [release-bot]',
+        'ignore_bots: true',
+        'ignore_labels: [skip-title-check]',
+        'ignore_patterns:',
+        "  - '^Release v\\d{1,3}'",
+      ].join('\n'));
+      const { skip } = resolveOptions(inputs({ ignore_labels: 'wip, do-not-check', ignore_drafts: 'true' }), workspace);
+      expect(skip).toMatchObject({
+        authors: ['release-bot'],
+        bots: true,
+        labels: ['wip', 'do-not-check'],
+        drafts: true,
+      });
+      expect(skip.patterns.map((pattern) => pattern.source)).toEqual(['^Release v\\d{1,3}']);
+    });
+
+    test('should reject invalid ignore patterns', () => {
+      expect(() => resolveOptions(inputs({ ignore_patterns: '^Release (' }), workspace)).toThrow(
+        /ignore_patterns contains an invalid pattern "\^Release \("/,
+      );
+    });
+
+    test('should read label rules from the config file and inputs', () => {
+      writeConfig('auto_label: true\ntype_labels:\n  feat: feature\n  perf: performance\nscope_label: area/{scope}\n');
+      const { labels } = resolveOptions(inputs({ breaking_label: 'semver-major' }), workspace);
+      expect(labels).toEqual({
+        enabled: true,
+        types: { feat: 'feature', perf: 'performance' },
+        breaking: 'semver-major',
+        scope: 'area/{scope}',
+      });
+      expect(resolveOptions(inputs({ type_labels: 'fix=bug' }), workspace).labels.types).toEqual({ fix: 'bug' });
+    });
+
+    test('should reject a scope label without the placeholder', () => {
+      expect(() => resolveOptions(inputs({ scope_label: 'area' }), workspace)).toThrow(ConfigError);
+      expect(() => resolveOptions(inputs({ scope_label: '{scope}' }), workspace))
+        .toThrow('scope_label must contain text besides {scope}, such as area/{scope}');
+      expect(() => resolveOptions(inputs({ type_labels: 'feat' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should read scope paths from the config file and inputs', () => {
+      writeConfig('scope_paths:\n  storage: engine/storage/**\n  query:\n    - query/**\n    - "**/*.{sql,influxql}"\n');
+      expect(resolveOptions(inputs({}), workspace).scopePaths).toEqual({
+        storage: ['engine/storage/**'],
+        query: ['query/**', '**/*.{sql,influxql}'],
+      });
+      expect(resolveOptions(inputs({ scope_paths: 'meta=app/meta/**\nmeta=lib/meta/**' }), workspace).scopePaths)
+        .toEqual({ meta: ['app/meta/**', 'lib/meta/**'] });
+    });
+
+    test('should reject invalid scope paths', () => {
+      expect(() => resolveOptions(inputs({ scope_paths: 'Storage=engine/**' }), workspace)).toThrow(ConfigError);
+      expect(() => resolveOptions(inputs({ scope_paths: 'engine/**' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should read the bump per type from the config file and inputs', () => {
+      writeConfig('bump_types:\n  feat: minor\n  deps: patch\n');
+      expect(resolveOptions(inputs({}), workspace).bumpTypes).toEqual({ feat: 'minor', deps: 'patch' });
+      expect(resolveOptions(inputs({ bump_types: 'Feat=Major' }), workspace).bumpTypes).toEqual({ feat: 'major' });
+      expect(() => resolveOptions(inputs({ bump_types: 'feat=huge' }), workspace)).toThrow(ConfigError);
+    });
+
+    test('should read disabled rules and reject unknown rule names', () => {
+      writeConfig('disabled_rules:\n  - imperative-mood\n');
+      expect(resolveOptions(inputs({}), workspace).disabledRules).toEqual(['imperative-mood']);
+      expect(resolveOptions(inputs({ disabled_rules: 'type-case, scope-enum' }), workspace).disabledRules)
+        .toEqual(['type-case', 'scope-enum']);
+      expect(() => resolveOptions(inputs({ disabled_rules: 'no-such-rule' }), workspace))
+        .toThrow('disabled_rules refers to unknown rule "no-such-rule"');
+    });
+
+    test('should read extra imperative verbs and reject invalid ones', () => {
+      writeConfig('imperative_verbs: [vendor, shim]\n');
+      expect(resolveOptions(inputs({}), workspace).imperativeVerbs).toEqual(['vendor', 'shim']);
+      expect(resolveOptions(inputs({ imperative_verbs: 'gate' }), workspace).imperativeVerbs).toEqual(['gate']);
+      expect(() => resolveOptions(inputs({ imperative_verbs: 'Vendor' }), workspace))
+        .toThrow('imperative_verbs must only contain lowercase letters, got "Vendor"');
+    });
+
+    test('should read the ticket reference requirement from the config file and inputs', () => {
+      expect(resolveOptions(inputs({}), workspace).ticket).toBeUndefined();
+
+      writeConfig("ticket_location: suffix\nticket_pattern: 'GEMINI-\\d+'\nticket_exempt_types: [chore, docs]\n");
+      expect(resolveOptions(inputs({}), workspace).ticket).toEqual({
+        location: 'suffix',
+        pattern: /GEMINI-\d+/,
+        exemptTypes: ['chore', 'docs'],
+      });
+      expect(resolveOptions(inputs({ ticket_location: 'body', ticket_pattern: '#\\d+' }), workspace).ticket)
+        .toEqual({ location: 'body', pattern: /#\d+/, exemptTypes: ['chore', 'docs'] });
+    });
+
+    test('should reject an invalid ticket location or pattern', () => {
+      expect(() => resolveOptions(inputs({ ticket_location: 'footer' }), workspace))
+        .toThrow('ticket_location must be one of: suffix, scope, body, got "footer"');
+      expect(() => resolveOptions(inputs({ ticket_location: 'suffix', ticket_pattern: '[A-Z' }), workspace))
+        .toThrow('ticket_pattern contains an invalid pattern "[A-Z"');
+    });
+
+    test('should reject a config file that is not a mapping', () => {
+      writeConfig('- feat\n- fix\n');
+      expect(() => resolveOptions(inputs({}), workspace)).toThrow(ConfigError);
+    });
+
+    test('should lowercase the configured scopes, which titles are compared against in lowercase', () => {
+      expect(resolveOptions(inputs({ scopes: 'API, storage' }), workspace).allowedScopes).toEqual(['api', 'storage']);
+    });
+
+    test('should read the revert reference requirement from the config file and inputs', () => {
+      writeConfig('revert_reference: true\n');
+      expect(resolveOptions(inputs({}), workspace).revertReference).toBe(true);
+      expect(resolveOptions(inputs({ revert_reference: 'false' }), workspace).revertReference).toBe(false);
+    });
+
+    test('should let the config file set options when the inputs keep their action.yml defaults', () => {
+      const action = parseYaml(fs.readFileSync(path.join(__dirname, '..', '..', 'action.yml'), 'utf8'));
+      const defaults: Record<string, string> = {};
+      for (const [name, input] of Object.entries(action.inputs as Record<string, { default?: string }>)) {
+        if (input.default !== undefined) {
+          defaults[name] = input.default;
+        }
+      }
+      writeConfig([
+        'strict: false',
+        'unicode: true',
+        'language: zh-CN',
+        'revert_reference: true',
+        'emoji_prefix: true',
+      ].join('\n'));
+      expect(resolveOptions(inputs(defaults), workspace)).toMatchObject({
+        strict: false,
+        unicode: true,
+        language: 'zh-CN',
+        revertReference: true,
+        emojiPrefix: true,
+      });
+    });
+
+    test('should read the emoji prefix mode and the emoji of each type', () => {
+      writeConfig('emoji_prefix: true\nemoji_types:\n  feat: ✨\n  fix: [🐛, ":ambulance:"]\n');
+      expect(resolveOptions(inputs({}), workspace)).toMatchObject({
+        emojiPrefix: true,
+        emojiTypes: { feat: ['✨'], fix: ['🐛', ':ambulance:'] },
+      });
+      expect(resolveOptions(inputs({ emoji_types: 'feat=✨, feat=🎉' }), workspace).emojiTypes)
+        .toEqual({ feat: ['✨', '🎉'] });
+    });
+
+    test('should reject emoji types that are not an emoji', () => {
+      expect(() => resolveOptions(inputs({ emoji_types: 'feat=new' }), workspace))
+        .toThrow('emoji_types for feat must be an emoji or a :shortcode:, got "new"');
+      expect(() => resolveOptions(inputs({ emoji_types: 'Feat=✨' }), workspace))
+        .toThrow('emoji_types types must only contain lowercase letters, got "Feat"');
+    });
+
+    test('should read a custom title pattern and reject unknown groups', () => {
+      writeConfig("title_pattern: '^\\[(?<scope>[a-z-]+)\\] (?<description>.+)$'\n");
+      expect(resolveOptions(inputs({}), workspace).titlePattern?.source).toBe('^\\[(?<scope>[a-z-]+)\\] (?<description>.+)$');
+      expect(() => resolveOptions(inputs({ title_pattern: '^(?<component>\\w+): (?<description>.+)$' }), workspace))
+        .toThrow('title_pattern has an unknown group "component", expected: type, scope, ticket, breaking, description');
+      expect(() => resolveOptions(inputs({ title_pattern: '^(?<type>\\w+): .+$' }), workspace))
+        .toThrow('title_pattern must capture the description in a (?<description>...) group');
+    });
+
+    test('should read the maximum title length and reject invalid ones', () => {
+      writeConfig('max_header_length: 72\n');
+      expect(resolveOptions(inputs({}), workspace).maxHeaderLength).toBe(72);
+      expect(() => resolveOptions(inputs({ max_header_length: '0' }), workspace))
+        .toThrow('max_header_length must be a positive number');
+    });
+  });
+
+  describe('commitlint configuration', () => {
+    const rules = {
+      'type-enum': [2, 'always', ['feat', 'fix']],
+      'header-max-length': [1, 'always', 72],
+      'body-max-line-length': [2, 'always', 100],
+    };
+
+    test('should apply the rules of a commitlint config found in the workspace', () => {
+      writeConfig(JSON.stringify({ rules }), '.commitlintrc.json');
+      const options = resolveOptions(inputs({}), workspace);
+      expect(options).toMatchObject({
+        allowedTypes: ['feat', 'fix'],
+        maxHeaderLength: 72,
+        severity: { INVALID_TYPE: 'error', HEADER_TOO_LONG: 'warning' },
+      });
+      expect(options.configWarnings).toEqual([
+        '.commitlintrc.json: rule "body-max-line-length" is not supported and is ignored',
+      ]);
+    });
+
+    test('should read CommonJS configs and the commitlint key of package.json', () => {
+      writeConfig(`module.exports = ${JSON.stringify({ rules })};\n`, 'commitlint.config.js');
+      expect(resolveOptions(inputs({ commitlint_config: 'commitlint.config.js' }), workspace).maxHeaderLength)
+        .toBe(72);
+
+      writeConfig(JSON.stringify({ name: 'app', commitlint: { rules: { 'header-max-length': [2, 'always', 90] } } }), 'package.json');
+      expect(resolveOptions(inputs({}), workspace).maxHeaderLength).toBe(90);
+    });
+
+    test('should ignore a package.json without commitlint config', () => {
+      writeConfig(JSON.stringify({ name: 'app' }), 'package.json');
+      writeConfig('rules:\n  header-max-length: [2, always, 80]\n', '.commitlintrc.yml');
+      expect(resolveOptions(inputs({}), workspace).maxHeaderLength).toBe(80);
+    });
+
+    test('should give the config file and inputs precedence over commitlint rules', () => {
+      writeConfig(JSON.stringify({ rules }), '.commitlintrc.json');
+      writeConfig('types: [feat, fix, docs]\nseverity:\n  HEADER_TOO_LONG: error\n');
+      const options = resolveOptions(inputs({ max_header_length: '100' }), workspace);
+      expect(options.allowedTypes).toEqual(['feat', 'fix', 'docs']);
+      expect(options.maxHeaderLength).toBe(100);
+      expect(options.severity).toMatchObject({ INVALID_TYPE: 'error', HEADER_TOO_LONG: 'error' });
+    });
+
+    test('should use the given commitlint config, or none', () => {
+      writeConfig(JSON.stringify({ rules }), '.commitlintrc.json');
+      writeConfig(JSON.stringify({ rules: { 'header-max-length': [2, 'always', 60] } }), 'config/commitlint.json');
+      expect(resolveOptions(inputs({ commitlint_config: 'config/commitlint.json' }), workspace).maxHeaderLength)
+        .toBe(60);
+      expect(resolveOptions(inputs({ commitlint_config: 'false' }), workspace).maxHeaderLength).toBeUndefined();
+      expect(() => resolveOptions(inputs({ commitlint_config: 'missing.json' }), workspace))
+        .toThrow('commitlint_config file not found');
+    });
+
+    test('should not run a JavaScript config found in the workspace', () => {
+      writeConfig('throw new Error("ran");\n', 'commitlint.config.js');
+      const options = resolveOptions(inputs({}), workspace);
+      expect(options.maxHeaderLength).toBeUndefined();
+      expect(options.configWarnings).toEqual([
+        'commitlint.config.js is not loaded since it would run code; set the commitlint_config input to commitlint.config.js to use it',
+      ]);
+    });
+
+    test('should not run a JavaScript config named by the config file', () => {
+      writeConfig('throw new Error("ran");\n', 'scripts/commitlint.cjs');
+      writeConfig('commitlint_config: scripts/commitlint.cjs\n');
+      expect(() => resolveOptions(inputs({}), workspace))
+        .toThrow('commitlint_config in the config file cannot name a JavaScript config (scripts/commitlint.cjs)');
+
+      writeConfig(`module.exports = ${JSON.stringify({ rules })};\n`, 'scripts/commitlint.cjs');
+      expect(resolveOptions(inputs({ commitlint_config: 'scripts/commitlint.cjs' }), workspace).maxHeaderLength)
+        .toBe(72);
+    });
+
+    test('should warn about a commitlint config found in the workspace that cannot be loaded', () => {
+      writeConfig('rules: [unclosed\n', '.commitlintrc.yml');
+      const options = resolveOptions(inputs({}), workspace);
+      expect(options.maxHeaderLength).toBeUndefined();
+      expect(options.configWarnings).toEqual([
+        expect.stringMatching(/^\.commitlintrc\.yml is ignored: Unable to load .*\.commitlintrc\.yml: /),
+      ]);
+    });
+
+    test('should reject a named commitlint config that cannot be loaded', () => {
+      writeConfig('export default { rules: {} };\n', 'commitlint.config.js');
+      expect(() => resolveOptions(inputs({ commitlint_config: 'commitlint.config.js' }), workspace))
+        .toThrow(ConfigError);
+    });
+  });
+});
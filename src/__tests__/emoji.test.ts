@@ -0,0 +1,41 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { describe, test, expect } from '@jest/globals';
+import { normalizeEmoji, parseEmojiPrefix } from '../emoji';
+
+describe('emoji', () => {
+  test.each([
+    ['✨ feat: add login', { emoji: '✨', length: 2 }],
+    [':sparkles:  feat: add login', { emoji: ':sparkles:', length: 12 }],
+    ['🧑‍💻feat: add login', { emoji: '🧑‍💻', length: 5 }],
+    ['♻️ refactor: split parser', { emoji: '♻️', length: 3 }],
+  ])('should parse the emoji prefix of %s', (title, prefix) => {
+    expect(parseEmojiPrefix(title)).toEqual(prefix);
+  });
+
+  test.each(['feat: add login', ': add login', 'Ä feat: add login', ''])(
+    'should find no emoji prefix in "%s"',
+    (title) => {
+      expect(parseEmojiPrefix(title)).toBeUndefined();
+    },
+  );
+
+  test('should compare shortcodes and variation selectors as the same emoji', () => {
+    expect(normalizeEmoji(':sparkles:')).toBe('✨');
+    expect(normalizeEmoji('♻️')).toBe(normalizeEmoji(':recycle:'));
+    expect(normalizeEmoji(':unknown:')).toBe(':unknown:');
+  });
+});
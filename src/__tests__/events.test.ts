@@ -0,0 +1,107 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebhookPayload } from '@actions/github/lib/interfaces';
+import { resolveEventSubject } from '../events';
+
+describe('events', () => {
+  const fixture = (eventName: string): WebhookPayload =>
+    JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'events', `${eventName}.json`), 'utf8'));
+
+  test('should check the title and body of a pull_request', () => {
+    expect(resolveEventSubject('pull_request', fixture('pull_request'))).toEqual({
+      title: 'feat(query): add time zone support',
+      message: 'feat(query): add time zone support\n\nParse the tz clause.\n\nCloses #41',
+      pullRequest: 42,
+      skip: {
+        title: 'feat(query): add time zone support',
+        author: 'octocat',
+        authorType: 'User',
+        labels: ['enhancement'],
+        draft: false,
+      },
+    });
+  });
+
+  test('should check the title of a pull_request_target like a pull_request', () => {
+    expect(resolveEventSubject('pull_request_target', fixture('pull_request_target'))).toEqual({
+      title: 'build(deps): bump yaml from 2.6.0 to 2.6.1',
+      message: 'build(deps): bump yaml from 2.6.0 to 2.6.1',
+      pullRequest: 43,
+      skip: {
+        title: 'build(deps): bump yaml from 2.6.0 to 2.6.1',
+        author: 'dependabot[bot]',
+        authorType: 'Bot',
+        labels: ['dependencies'],
+        draft: false,
+      },
+    });
+  });
+
+  test('should check the first commit of a push and keep every commit', () => {
+    const subject = resolveEventSubject('push', fixture('push'));
+    expect(subject).toMatchObject({
+      title: 'fix(meta): handle leader change',
+      message: 'fix(meta): handle leader change\n\nRetry the request on the new leader.',
+      skip: { title: 'fix(meta): handle leader change', author: 'octocat', authorType: 'User' },
+    });
+    expect(subject?.pullRequest).toBeUndefined();
+    expect(subject?.commits?.map((commit) => commit.sha.substring(0, 7))).toEqual(['1a2b3c4', '9a8b7c6']);
+  });
+
+  test('should check the head commit of a merge_group', () => {
+    expect(resolveEventSubject('merge_group', fixture('merge_group'))).toEqual({
+      title: 'feat(query): add time zone support (#42)',
+      message: 'feat(query): add time zone support (#42)\n\nParse the tz clause.',
+      commits: undefined,
+      skip: { title: 'feat(query): add time zone support (#42)', author: 'octocat', authorType: 'User' },
+    });
+  });
+
+  test('should check the PR title and body of a merge_group merge commit', () => {
+    expect(resolveEventSubject('merge_group', fixture('merge_group_merge_commit'))).toEqual({
+      title: 'feat(query): add time zone support',
+      message: 'feat(query): add time zone support\n\nParse the tz clause.',
+      commits: undefined,
+      skip: { title: 'feat(query): add time zone support', author: 'octocat', authorType: 'User' },
+    });
+
+    const payload = fixture('merge_group_merge_commit');
+    payload.merge_group.head_commit.message = 'Merge pull request #42 from octocat/tz';
+    expect(resolveEventSubject('merge_group', payload)?.title).toBe('Merge pull request #42 from octocat/tz');
+  });
+
+  test('should check the title input of a workflow_dispatch', () => {
+    expect(resolveEventSubject('workflow_dispatch', fixture('workflow_dispatch'))).toEqual({
+      title: 'chore(release): prepare v1.4.0',
+      message: 'chore(release): prepare v1.4.0',
+      commits: undefined,
+      skip: { title: 'chore(release): prepare v1.4.0', author: 'octocat', authorType: 'User' },
+    });
+  });
+
+  test('should resolve other events from their payload', () => {
+    expect(resolveEventSubject('pull_request_review', fixture('pull_request'))?.pullRequest).toBe(42);
+  });
+
+  test('should return undefined when the event has no title', () => {
+    expect(resolveEventSubject('workflow_dispatch', { ...fixture('workflow_dispatch'), inputs: {} })).toBeUndefined();
+    expect(resolveEventSubject('merge_group', { merge_group: {} })).toBeUndefined();
+    expect(resolveEventSubject('push', { ...fixture('push'), commits: [] })).toBeUndefined();
+    expect(resolveEventSubject('schedule', {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { ConventionalCommitFixer } from '../fixer';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('ConventionalCommitFixer', () => {
+  const fixer = new ConventionalCommitFixer({ strict: true });
+
+  test.each([
+    ['Feat: Added login.', 'feat: add login'],
+    ['FIX(api): resolve timeout', 'fix(api): resolve timeout'],
+    ['feat:add login', 'feat: add login'],
+    ['feat:   add login', 'feat: add login'],
+    ['feat: add login ', 'feat: add login'],
+    ['feat!(api): drop v1 endpoints', 'feat(api)!: drop v1 endpoints'],
+    ['feat(): add login', 'feat: add login'],
+    ['feat(Auth): add login', 'feat(auth): add login'],
+    ['fix: fixed memory leak', 'fix: fix memory leak'],
+    ['feat: Implemented retries', 'feat: implement retries'],
+    ['feat: Removing legacy flags...', 'feat: removing legacy flags'],
+    ['feature: add login', 'feat: add login'],
+  ])('should fix "%s" to "%s"', (title, expected) => {
+    const fix = fixer.fix(title);
+    expect(fix?.title).toBe(expected);
+    expect(fix?.isValid).toBe(true);
+  });
+
+  test('should replace a full-width colon', () => {
+    expect(fixer.fix('feat(api)：add login')).toEqual({
+      title: 'feat(api): add login',
+      fixed: ['FULLWIDTH_COLON', 'NON_ASCII_CHARACTERS'],
+      isValid: true,
+    });
+    expect(new ConventionalCommitFixer({ unicode: true }).fix('fix：修复查询超时。')).toEqual({
+      title: 'fix: 修复查询超时',
+      fixed: ['FULLWIDTH_COLON', 'DESCRIPTION_ENDS_WITH_PERIOD'],
+      isValid: true,
+    });
+  });
+
+  test('should list the fixed error codes', () => {
+    const fix = fixer.fix('Feat: Added login.');
+    expect(fix?.fixed).toEqual([
+      'TYPE_NOT_LOWERCASE',
+      'NON_IMPERATIVE_MOOD',
+      'DESCRIPTION_NOT_LOWERCASE',
+      'DESCRIPTION_ENDS_WITH_PERIOD',
+    ]);
+  });
+
+  test('should return undefined for valid titles', () => {
+    expect(fixer.fix('feat: add login')).toBeUndefined();
+  });
+
+  test('should return undefined when the title cannot be parsed', () => {
+    expect(fixer.fix('add login')).toBeUndefined();
+  });
+
+  test('should return undefined when no issue is fixable', () => {
+    expect(fixer.fix(`feat: ${'a'.repeat(51)}`)).toBeUndefined();
+  });
+
+  test('should keep acronyms at the start of the description', () => {
+    const fix = fixer.fix('Feat: API cleanup');
+    expect(fix?.title).toBe('feat: API cleanup');
+    expect(fix?.isValid).toBe(false);
+  });
+
+  test('should mark partial fixes as still invalid', () => {
+    const fix = fixer.fix(`Feat: ${'a'.repeat(51)}`);
+    expect(fix?.title).toBe(`feat: ${'a'.repeat(51)}`);
+    expect(fix?.isValid).toBe(false);
+  });
+
+  test('should keep a first word that can also be a noun', () => {
+    expect(fixer.fix('fix: tests failing on windows')).toBeUndefined();
+    expect(fixer.fix('Chore: logging cleanup')).toEqual({
+      title: 'chore: logging cleanup',
+      fixed: ['TYPE_NOT_LOWERCASE'],
+      isValid: true,
+    });
+  });
+
+  test('should not fix rules that are turned off', () => {
+    const lenientFixer = new ConventionalCommitFixer({ strict: false });
+    expect(lenientFixer.fix('feat: Added login.')).toBeUndefined();
+  });
+
+  test('should use the only scope of the changed files', () => {
+    const validator = new ConventionalCommitValidator();
+    const missing = validator.validateChangedScopes(validator.validate('fix: handle empty result'), ['query']);
+    expect(fixer.fix('fix: handle empty result', missing)?.title).toBe('fix(query): handle empty result');
+
+    const mismatch = validator.validateChangedScopes(validator.validate('fix(storage): handle empty result'), ['query']);
+    expect(fixer.fix('fix(storage): handle empty result', mismatch)).toMatchObject({
+      title: 'fix(query): handle empty result',
+      fixed: ['SCOPE_MISMATCH'],
+      isValid: true,
+    });
+
+    const ambiguous = validator.validateChangedScopes(validator.validate('fix: handle empty result'), ['query', 'meta']);
+    expect(fixer.fix('fix: handle empty result', ambiguous)).toBeUndefined();
+  });
+
+  test('should not pass a suggestion whose scope still does not match the changed files', () => {
+    const validator = new ConventionalCommitValidator();
+    const result = validator.validateChangedScopes(validator.validate('Feat(storage): add x'), ['query', 'meta']);
+    expect(result.errors.map((e) => e.code)).toEqual(['TYPE_NOT_LOWERCASE', 'SCOPE_MISMATCH']);
+    expect(fixer.fix('Feat(storage): add x', result)).toEqual({
+      title: 'feat(storage): add x',
+      fixed: ['TYPE_NOT_LOWERCASE'],
+      isValid: false,
+    });
+  });
+
+  test('should fix the reverted title inside a revert', () => {
+    expect(fixer.fix('Revert "Feat: added login."')).toEqual({
+      title: 'Revert "feat: add login"',
+      fixed: ['TYPE_NOT_LOWERCASE', 'NON_IMPERATIVE_MOOD', 'DESCRIPTION_ENDS_WITH_PERIOD'],
+      isValid: true,
+    });
+    expect(fixer.fix('revert: fix(API): handle empty result')?.title).toBe('revert: fix(api): handle empty result');
+    expect(fixer.fix('Revert "feat: add login"')).toBeUndefined();
+  });
+
+  test('should fix the title after an emoji prefix and keep the emoji', () => {
+    const emojiFixer = new ConventionalCommitFixer({ emojiPrefix: true });
+    expect(emojiFixer.fix('✨ Feat: added login.')).toEqual({
+      title: '✨ feat: add login',
+      fixed: ['TYPE_NOT_LOWERCASE', 'NON_IMPERATIVE_MOOD', 'DESCRIPTION_ENDS_WITH_PERIOD'],
+      isValid: true,
+    });
+    expect(emojiFixer.fix(':sparkles: feat: add login')).toBeUndefined();
+  });
+
+  test('should not fix titles of a custom title pattern', () => {
+    const customFixer = new ConventionalCommitFixer({ titlePattern: /^\[(?<scope>\w+)\] (?<description>.+)$/ });
+    expect(customFixer.fix('[storage] Added retention policy.')).toBeUndefined();
+  });
+
+  test('should only use aliases of allowed types', () => {
+    const customFixer = new ConventionalCommitFixer({ allowedTypes: ['fix', 'chore'] });
+    expect(customFixer.fix('feature: add login')).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { resolveOptions } from '../config';
+import { formatMessage, getCatalog, LANGUAGES } from '../i18n';
+import { renderMarkdown, renderText } from '../renderer';
+import { ResolvedOptions } from '../types';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('i18n', () => {
+  test('should fill placeholders and keep the ones without a value', () => {
+    expect(formatMessage('Type must be one of: {types}', { types: 'feat, fix' })).toBe('Type must be one of: feat, fix');
+    expect(formatMessage('/{pattern}/ {missing}', { pattern: 'GEMINI-\\d{3}' })).toBe('/GEMINI-\\d{3}/ {missing}');
+  });
+
+  test.each(LANGUAGES)('should use the same placeholders in the %s catalog as in English', (language) => {
+    const placeholders = (template: string) => (template.match(/\{\w+\}/g) ?? []).sort();
+    const en = getCatalog('en');
+    const catalog = getCatalog(language);
+    for (const part of ['messages', 'examples', 'report'] as const) {
+      for (const [key, template] of Object.entries(en[part])) {
+        expect([key, placeholders((catalog[part] as Record<string, string>)[key])]).toEqual([key, placeholders(template)]);
+      }
+    }
+  });
+
+  describe('zh-CN', () => {
+    const options: ResolvedOptions = {
+      ...resolveOptions(() => '', __dirname),
+      language: 'zh-CN',
+      allowedTypes: ['feat', 'fix'],
+      maxDescriptionLength: 20,
+    };
+    const validator = new ConventionalCommitValidator(options);
+
+    test('should report errors with the configured values filled in', () => {
+      const result = validator.validate('docs: added a very long description');
+      expect(result.errors.map(e => e.message)).toEqual([
+        '类型必须是以下之一：feat, fix',
+        '描述不能超过 20 个字符',
+        '描述应使用祈使语气（例如用 "add"，而不是 "added"）',
+      ]);
+      expect(result.errors[2].example).toBe('docs: add a very long description（而不是 "added"）');
+    });
+
+    test('should render the report in Chinese', () => {
+      const title = 'Feat: add login';
+      const result = validator.validate(title);
+      const text = renderText({ title, result, options });
+      expect(text).toContain('❌ 标题 "Feat: add login" 不符合约定式提交（Conventional Commits）规范。');
+      expect(text).toContain('1. 类型必须是小写');
+      expect(text).toContain('   示例：feat: add new feature');
+      expect(text).toContain('   • description：必填，最多 20 个字符');
+
+      const markdown = renderMarkdown({ title, result, options });
+      expect(markdown).toContain('| 级别 | 代码 | 信息 | 示例 |');
+      expect(markdown).toContain('| ❌ 错误 | `TYPE_NOT_LOWERCASE` | 类型必须是小写 | `feat: add new feature` |');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { OctokitPullRequestClient } from '../github';
+import { DEFAULT_TYPE_LABELS, getLabels, isManagedLabel, planLabels, syncLabels } from '../labels';
+import { LabelRules } from '../types';
+import { MockOctokit } from './mocks/octokit';
+
+describe('labels', () => {
+  const rules: LabelRules = {
+    enabled: true,
+    types: DEFAULT_TYPE_LABELS,
+    breaking: 'breaking-change',
+    scope: 'area/{scope}',
+  };
+
+  test('should map type, scope and breaking marker to labels', () => {
+    expect(getLabels({ type: 'feat', scope: 'storage', isBreakingChange: true, description: 'x' }, rules))
+      .toEqual(['enhancement', 'area/storage', 'breaking-change']);
+    expect(getLabels({ type: 'chore', isBreakingChange: false, description: 'x' }, rules)).toEqual([]);
+    expect(getLabels({ type: 'fix', scope: 'api', isBreakingChange: false, description: 'x' }, { ...rules, scope: '' }))
+      .toEqual(['bug']);
+    expect(getLabels({ type: 'Feat', isBreakingChange: false, description: 'x' }, rules)).toEqual(['enhancement']);
+    expect(getLabels({ type: 'constructor', isBreakingChange: false, description: 'x' }, rules)).toEqual([]);
+  });
+
+  test('should recognize labels managed by the rules', () => {
+    expect(isManagedLabel('Bug', rules)).toBe(true);
+    expect(isManagedLabel('breaking-change', rules)).toBe(true);
+    expect(isManagedLabel('area/query', rules)).toBe(true);
+    expect(isManagedLabel('area/', rules)).toBe(false);
+    expect(isManagedLabel('needs-review', rules)).toBe(false);
+    expect(isManagedLabel('needs-review', { ...rules, scope: '{scope}' })).toBe(false);
+  });
+
+  test('should add missing labels and remove stale managed labels only', () => {
+    const changes = planLabels(
+      ['bug', 'area/query', 'needs-review', 'Enhancement'],
+      { type: 'feat', scope: 'storage', isBreakingChange: false, description: 'x' },
+      rules,
+    );
+    expect(changes).toEqual({ added: ['area/storage'], removed: ['bug', 'area/query'] });
+  });
+
+  describe('syncLabels', () => {
+    let octokit: MockOctokit;
+    let client: OctokitPullRequestClient;
+
+    beforeEach(() => {
+      octokit = new MockOctokit();
+      client = new OctokitPullRequestClient(octokit.asOctokit(), { owner: 'openGemini', repo: 'openGemini' }, 42);
+    });
+
+    test('should relabel the PR when the title changes', async () => {
+      octokit.labels = ['enhancement', 'needs-review'];
+      await syncLabels(client, { type: 'fix', isBreakingChange: true, description: 'x' }, rules);
+      expect(octokit.labels).toEqual(['needs-review', 'bug', 'breaking-change']);
+    });
+
+    test('should not call the API when the labels are up to date', async () => {
+      octokit.labels = ['bug'];
+      await expect(syncLabels(client, { type: 'fix', isBreakingChange: false, description: 'x' }, rules))
+        .resolves.toEqual({ added: [], removed: [] });
+      expect(octokit.calls).toEqual(['issues.listLabelsOnIssue']);
+    });
+  });
+});
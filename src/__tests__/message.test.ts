@@ -0,0 +1,135 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { isValidFooterToken, parseCommitMessage } from '../message';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('commit message parser', () => {
+  test('should parse a header-only message', () => {
+    expect(parseCommitMessage('feat: add login\n')).toEqual({
+      header: 'feat: add login',
+      body: undefined,
+      footers: [],
+      hasBlankLineAfterHeader: true,
+      isBreakingChange: false,
+    });
+  });
+
+  test('should parse body and footers', () => {
+    const message = [
+      'fix(storage): prevent racing of requests',
+      '',
+      'Introduce a request id and a reference to latest request.',
+      '',
+      'Dismiss incoming responses other than from latest request.',
+      '',
+      'Reviewed-by: Z',
+      'Refs #123',
+    ].join('\n');
+
+    const parsed = parseCommitMessage(message);
+    expect(parsed.body).toBe([
+      'Introduce a request id and a reference to latest request.',
+      '',
+      'Dismiss incoming responses other than from latest request.',
+    ].join('\n'));
+    expect(parsed.footers).toEqual([
+      { token: 'Reviewed-by', separator: ': ', value: 'Z' },
+      { token: 'Refs', separator: ' #', value: '123' },
+    ]);
+  });
+
+  test('should treat a last paragraph without footers as body', () => {
+    const parsed = parseCommitMessage('feat: add login\n\nSupport OAuth2: Google and GitHub');
+    expect(parsed.body).toBe('Support OAuth2: Google and GitHub');
+    expect(parsed.footers).toEqual([]);
+  });
+
+  test('should append continuation lines to the previous footer', () => {
+    const parsed = parseCommitMessage('feat!: drop v1\n\nBREAKING CHANGE: the v1 api\nis no longer served\r\nRefs: #12');
+    expect(parsed.footers).toEqual([
+      { token: 'BREAKING CHANGE', separator: ': ', value: 'the v1 api\nis no longer served' },
+      { token: 'Refs', separator: ': ', value: '#12' },
+    ]);
+  });
+
+  test.each([
+    'BREAKING CHANGE: drop v1 api',
+    'BREAKING-CHANGE: drop v1 api',
+  ])('should detect breaking change footer: %s', (footer) => {
+    expect(parseCommitMessage(`feat: add v2 api\n\n${footer}`).isBreakingChange).toBe(true);
+  });
+
+  test('should detect a missing blank line after the header', () => {
+    expect(parseCommitMessage('feat: add login\nSupport OAuth2').hasBlankLineAfterHeader).toBe(false);
+  });
+
+  test.each([
+    ['Reviewed-by', true],
+    ['Co-authored-by', true],
+    ['BREAKING CHANGE', true],
+    ['BREAKING-CHANGE', true],
+    ['Reviewed by', false],
+    ['breaking change', false],
+    ['Breaking-Change', false],
+  ])('should check footer token %s', (token, valid) => {
+    expect(isValidFooterToken(token as string)).toBe(valid);
+  });
+});
+
+describe('ConventionalCommitValidator.validateMessage', () => {
+  const validator = new ConventionalCommitValidator({ strict: true });
+
+  test('should accept a valid message', () => {
+    const result = validator.validateMessage('feat: add login\n\nSupport OAuth2.\n\nRefs: #12\nSigned-off-by: Z <z@example.com>');
+    expect(result.isValid).toBe(true);
+  });
+
+  test('should report header errors', () => {
+    const result = validator.validateMessage('Feat: add login\n\nSupport OAuth2.');
+    expect(result.errors.map(e => e.code)).toEqual(['TYPE_NOT_LOWERCASE']);
+  });
+
+  test('should require a blank line between header and body', () => {
+    const result = validator.validateMessage('feat: add login\nSupport OAuth2.');
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(e => e.code)).toEqual(['MISSING_BLANK_LINE_AFTER_HEADER']);
+  });
+
+  test('should reject invalid footer tokens', () => {
+    const result = validator.validateMessage('feat: add login\n\nReviewed-by: Z\nAcked by: Y\n');
+    expect(result.isValid).toBe(false);
+    const error = result.errors.find(e => e.code === 'INVALID_FOOTER_TOKEN');
+    expect(error?.message).toContain('"Acked by"');
+  });
+
+  test('should reject a lowercase breaking change footer', () => {
+    const result = validator.validateMessage('feat: add v2 api\n\nbreaking change: drop v1 api');
+    expect(result.errors.some(e => e.code === 'INVALID_FOOTER_TOKEN')).toBe(true);
+  });
+
+  test('should apply configured severities to message rules', () => {
+    const lenient = new ConventionalCommitValidator({ severity: { MISSING_BLANK_LINE_AFTER_HEADER: 'warning' } });
+    const result = lenient.validateMessage('feat: add login\nSupport OAuth2.');
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map(e => e.code)).toEqual(['MISSING_BLANK_LINE_AFTER_HEADER']);
+  });
+
+  test('should treat a BREAKING CHANGE footer as equal to "!"', () => {
+    const components = validator.parseMessageComponents('feat(api): add v2\n\nBREAKING CHANGE: drop v1');
+    expect(components).toMatchObject({ type: 'feat', scope: 'api', isBreakingChange: true });
+    expect(validator.parseMessageComponents('feat(api): add v2')?.isBreakingChange).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { GITHUB_ACTIONS_LOGIN, Octokit } from '../../github';
+
+interface MockComment {
+  id: number;
+  body: string;
+  user: { login: string };
+}
+
+interface MockFile {
+  filename: string;
+  previous_filename?: string;
+}
+
+interface MockCommit {
+  sha: string;
+  commit: { message: string };
+  parents: { sha: string }[];
+}
+
+/**
+ * In-memory stand-in for the REST endpoints used by the action
+ */
+export class MockOctokit {
+  public title = '';
+  public comments: MockComment[] = [];
+  public commits: MockCommit[] = [];
+  public labels: string[] = [];
+  public files: MockFile[] = [];
+  public readonly calls: string[] = [];
+  // Login of a personal access token; the workflow GITHUB_TOKEN cannot read its own user
+  public login?: string;
+  private nextId = 1;
+
+  public readonly rest = {
+    users: {
+      getAuthenticated: async () => {
+        this.calls.push('users.getAuthenticated');
+        if (!this.login) throw new Error('Resource not accessible by integration');
+        return { data: { login: this.login } };
+      },
+    },
+    pulls: {
+      update: async (params: { title: string }) => {
+        this.calls.push('pulls.update');
+        this.title = params.title;
+        return { data: {} };
+      },
+      listCommits: async () => {
+        this.calls.push('pulls.listCommits');
+        return { data: this.commits };
+      },
+      listFiles: async () => {
+        this.calls.push('pulls.listFiles');
+        return { data: this.files };
+      },
+    },
+    issues: {
+      listComments: async () => {
+        this.calls.push('issues.listComments');
+        return { data: this.comments.map((comment) => ({ ...comment })) };
+      },
+      createComment: async (params: { body: string }) => {
+        this.calls.push('issues.createComment');
+        this.comments.push({ id: this.nextId++, body: params.body, user: { login: this.login ?? GITHUB_ACTIONS_LOGIN } });
+        return { data: {} };
+      },
+      updateComment: async (params: { comment_id: number; body: string }) => {
+        this.calls.push('issues.updateComment');
+        const comment = this.comments.find((c) => c.id === params.comment_id);
+        if (!comment) throw new Error('Not Found');
+        comment.body = params.body;
+        return { data: {} };
+      },
+      deleteComment: async (params: { comment_id: number }) => {
+        this.calls.push('issues.deleteComment');
+        this.comments = this.comments.filter((c) => c.id !== params.comment_id);
+        return { data: {} };
+      },
+      listLabelsOnIssue: async () => {
+        this.calls.push('issues.listLabelsOnIssue');
+        return { data: this.labels.map((name) => ({ name })) };
+      },
+      addLabels: async (params: { labels: string[] }) => {
+        this.calls.push('issues.addLabels');
+        this.labels.push(...params.labels.filter((label) => !this.labels.includes(label)));
+        return { data: {} };
+      },
+      removeLabel: async (params: { name: string }) => {
+        this.calls.push('issues.removeLabel');
+        if (!this.labels.includes(params.name)) throw new Error('Label does not exist');
+        this.labels = this.labels.filter((label) => label !== params.name);
+        return { data: {} };
+      },
+    },
+  };
+
+  public async paginate<T>(method: (params: unknown) => Promise<{ data: T[] }>, params: unknown): Promise<T[]> {
+    return (await method(params)).data;
+  }
+
+  /**
+   * Adds a comment written by someone else
+   */
+  public addComment(body: string, login = 'octocat'): void {
+    this.comments.push({ id: this.nextId++, body, user: { login } });
+  }
+
+  /**
+   * Adds a commit to the pull request
+   */
+  public addCommit(sha: string, message: string, parentCount = 1): void {
+    const parents = Array.from({ length: parentCount }, (_, index) => ({ sha: `parent${index}` }));
+    this.commits.push({ sha, commit: { message }, parents });
+  }
+
+  /**
+   * Casts the mock to the Octokit type expected by the clients
+   */
+  public asOctokit(): Octokit {
+    return this as unknown as Octokit;
+  }
+}
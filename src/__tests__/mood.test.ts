@@ -0,0 +1,64 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { getImperative, isAmbiguousForm } from '../mood';
+
+describe('imperative mood', () => {
+  test.each([
+    ['added', 'add'],
+    ['Implemented', 'implement'],
+    ['refactored', 'refactor'],
+    ['introduces', 'introduce'],
+    ['fixes', 'fix'],
+    ['pushes', 'push'],
+    ['moving', 'move'],
+    ['running', 'run'],
+    ['dropped', 'drop'],
+    ['applied', 'apply'],
+    ['simplifies', 'simplify'],
+    ['passes', 'pass'],
+    ['rewrote', 'rewrite'],
+  ])('should return the base form of "%s"', (word, expected) => {
+    expect(getImperative(word)).toBe(expected);
+  });
+
+  test.each([
+    'add',
+    'address',
+    'process',
+    'embed',
+    'breaking',
+    'status',
+    'docs',
+    'string',
+    'readme',
+  ])('should not report "%s"', (word) => {
+    expect(getImperative(word)).toBeUndefined();
+  });
+
+  test('should tell forms that can also be nouns from past forms', () => {
+    expect(isAmbiguousForm('tests')).toBe(true);
+    expect(isAmbiguousForm('Logging')).toBe(true);
+    expect(isAmbiguousForm('applies')).toBe(true);
+    expect(isAmbiguousForm('added')).toBe(false);
+    expect(isAmbiguousForm('does')).toBe(false);
+  });
+
+  test('should recognize extra verbs', () => {
+    expect(getImperative('vendored')).toBeUndefined();
+    expect(getImperative('vendored', ['vendor'])).toBe('vendor');
+    expect(getImperative('vendor', ['vendor'])).toBeUndefined();
+  });
+});
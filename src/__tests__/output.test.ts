@@ -0,0 +1,76 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { ConventionalCommitFixer } from '../fixer';
+import { toActionOutputs, toResultJSON } from '../output';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('result output', () => {
+  const validator = new ConventionalCommitValidator({ strict: true });
+  const fixer = new ConventionalCommitFixer({ strict: true });
+
+  test('should serialize parsed components of a valid title', () => {
+    expect(toResultJSON(validator.validate('feat(api)!: add v2 endpoints'))).toEqual({
+      valid: true,
+      type: 'feat',
+      scope: 'api',
+      breaking: true,
+      description: 'add v2 endpoints',
+      spans: {
+        type: { start: 0, end: 4 },
+        scope: { start: 5, end: 8 },
+        breaking: { start: 9, end: 10 },
+        colon: { start: 10, end: 11 },
+        description: { start: 11, end: 28 },
+      },
+      errors: [],
+      warnings: [],
+      suggestedTitle: undefined,
+    });
+  });
+
+  test('should serialize error codes and the suggested title', () => {
+    const result = validator.validate('Feat: add login');
+    const json = toResultJSON(result, fixer.fix('Feat: add login', result));
+    expect(json.valid).toBe(false);
+    expect(json.errors.map((e) => e.code)).toEqual(['TYPE_NOT_LOWERCASE']);
+    expect(json.errors[0].span).toEqual({ start: 0, end: 4 });
+    expect(json.suggestedTitle).toBe('feat: add login');
+  });
+
+  test('should treat a BREAKING CHANGE footer as breaking', () => {
+    const json = toResultJSON(validator.validateMessage('feat: add v2\n\nBREAKING CHANGE: drop v1'));
+    expect(json.breaking).toBe(true);
+  });
+
+  test('should omit components of an unparseable title', () => {
+    const json = toResultJSON(validator.validate('add login'));
+    expect(json).toMatchObject({ valid: false, breaking: false });
+    expect(json.type).toBeUndefined();
+  });
+
+  test('should flatten the result into action outputs', () => {
+    const outputs = toActionOutputs(validator.validate('fix: resolve timeout'));
+    expect(outputs).toMatchObject({
+      valid: 'true',
+      type: 'fix',
+      scope: '',
+      breaking: 'false',
+      description: 'resolve timeout',
+      suggested_title: '',
+    });
+    expect(JSON.parse(outputs.result)).toEqual(toResultJSON(validator.validate('fix: resolve timeout')));
+  });
+});
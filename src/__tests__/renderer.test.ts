@@ -0,0 +1,179 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { resolveOptions } from '../config';
+import { ConventionalCommitFixer } from '../fixer';
+import { renderAnnotations, renderCommitsText, renderDiagnostics, renderMarkdown, renderText } from '../renderer';
+import { ResolvedOptions } from '../types';
+import { ConventionalCommitValidator } from '../validator';
+
+describe('renderer', () => {
+  const options: ResolvedOptions = {
+    ...resolveOptions(() => '', __dirname),
+    allowedTypes: ['feat', 'fix'],
+    severity: { NON_IMPERATIVE_MOOD: 'warning' },
+  };
+  const validator = new ConventionalCommitValidator(options);
+  const fixer = new ConventionalCommitFixer(options);
+
+  const render = (title: string) => {
+    const result = validator.validate(title);
+    return { title, result, fix: fixer.fix(title, result), options };
+  };
+
+  describe('renderText', () => {
+    test('should confirm a valid title and list its warnings', () => {
+      const text = renderText(render('feat: added login'));
+      expect(text).toContain('✅ Title "feat: added login" conforms to Conventional Commits specification');
+      expect(text).toContain('⚠️  Warnings:');
+      expect(text).toContain('1. Description should use imperative mood');
+      expect(text).toContain('💡 Suggested title: feat: add login');
+      expect(text).not.toContain('Format Requirements');
+    });
+
+    test('should list errors, format requirements and examples of an invalid title', () => {
+      const text = renderText(render('Feat: add login.'));
+      expect(text).toContain('❌ Title "Feat: add login." does not conform');
+      expect(text).toContain('1. Type must be lowercase');
+      expect(text).toContain('   Example: feat: add new feature');
+      expect(text).toContain('   • type: feat, fix');
+      expect(text).toContain('   • description: required, max 50 characters');
+      expect(text).toContain('⚙️  Strict mode is enabled:');
+      expect(text).toContain('   • fix(api): resolve timeout issue');
+    });
+
+    test('should describe a custom title pattern instead of the Conventional Commits format', () => {
+      const patternOptions = { ...options, titlePattern: /^\[(?<scope>\w+)\] (?<description>.+)$/ };
+      const title = 'storage: add shard';
+      const result = new ConventionalCommitValidator(patternOptions).validate(title);
+      const text = renderText({ title, result, options: patternOptions });
+      expect(text).toContain('❌ Title "storage: add shard" does not match the title pattern.');
+      expect(text).toContain('   /^\\[(?<scope>\\w+)\\] (?<description>.+)$/');
+      expect(text).not.toContain('Conventional Commits');
+      expect(text).not.toContain('<type>');
+      expect(text).not.toContain('type: feat, fix');
+      expect(text).not.toContain('breaking change marker');
+      expect(text).not.toContain('Valid examples');
+      expect(text).not.toContain('conventionalcommits.org');
+
+      const valid = new ConventionalCommitValidator(patternOptions).validate('[storage] add shard');
+      expect(renderText({ title: '[storage] add shard', result: valid, options: patternOptions }))
+        .toContain('✅ Title "[storage] add shard" matches the title pattern');
+    });
+
+    test('should omit strict rules when strict mode is disabled', () => {
+      const text = renderText({ ...render('Feat: add login'), options: { ...options, strict: false } });
+      expect(text).not.toContain('Strict mode');
+    });
+  });
+
+  describe('renderDiagnostics', () => {
+    test('should underline each issue in the title', () => {
+      const { result } = render('Feat(API): add login.');
+      expect(renderDiagnostics('Feat(API): add login.', result.errors)).toBe([
+        '   Feat(API): add login.',
+        '   ^^^^ Type must be lowercase',
+        '        ^^^ Scope must be lowercase (strict mode)',
+        '                       ^ Description must not end with a period (strict mode)',
+      ].join('\n'));
+    });
+
+    test('should align carets after wide characters', () => {
+      const title = 'feat: 添加登录。';
+      const { result } = render(title);
+      const text = renderDiagnostics(title, [{ ...result.errors[0], span: { start: 10, end: 11 } }]);
+      expect(text.split('\n')[1]).toMatch(/^ {17}\^\^ /);
+    });
+
+    test('should mark an empty span with one caret and skip issues without one', () => {
+      const issue = { code: 'MISSING_SCOPE', message: 'Scope is required', severity: 'error' as const };
+      expect(renderDiagnostics('feat: add', [{ ...issue, span: { start: 4, end: 4 } }, issue]))
+        .toBe('   feat: add\n       ^ Scope is required');
+      expect(renderDiagnostics('feat: add', [issue])).toBe('');
+    });
+
+    test('should be part of the text output', () => {
+      expect(renderText(render('feat: added login'))).toContain('         ^^^^^ Description should use imperative mood');
+      expect(renderText(render('Feat: add login'))).toContain('   Feat: add login\n   ^^^^ Type must be lowercase');
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    test('should render the parsed components of a valid title', () => {
+      const markdown = renderMarkdown(render('feat(api)!: add v2 endpoints'));
+      expect(markdown).toContain('### ✅ Title conforms to Conventional Commits');
+      expect(markdown).toContain('| Type | `feat` |');
+      expect(markdown).toContain('| Scope | `api` |');
+      expect(markdown).toContain('| Breaking change | yes |');
+      expect(markdown).toContain('| Description | add v2 endpoints |');
+      expect(markdown).not.toContain('| Severity |');
+      expect(markdown).not.toContain('<details>');
+    });
+
+    test('should render errors and warnings as a table', () => {
+      const markdown = renderMarkdown(render('Feat: added login.'));
+      expect(markdown).toContain('### ❌ Title does not conform to Conventional Commits');
+      expect(markdown).toContain('| Scope | — |');
+      expect(markdown).toContain('| ❌ error | `TYPE_NOT_LOWERCASE` | Type must be lowercase | `feat: add new feature` |');
+      expect(markdown).toContain('| ⚠️ warning | `NON_IMPERATIVE_MOOD` |');
+      expect(markdown).toContain('💡 **Suggested title:** `feat: add login`');
+      expect(markdown).toContain('<details>');
+    });
+
+    test('should show a custom title pattern in the details', () => {
+      const patternOptions = { ...options, titlePattern: /^\[(?<scope>\w+)\] (?<description>.+)$/ };
+      const title = 'storage: add shard';
+      const result = new ConventionalCommitValidator(patternOptions).validate(title);
+      const markdown = renderMarkdown({ title, result, options: patternOptions });
+      expect(markdown).toContain('### ❌ Title does not match the title pattern');
+      expect(markdown).toContain('```\n/^\\[(?<scope>\\w+)\\] (?<description>.+)$/\n```');
+      expect(markdown).not.toContain('Conventional Commits');
+      expect(markdown).not.toContain('- type: feat, fix');
+      expect(markdown).not.toContain('`fix(api): resolve timeout issue`');
+      expect(markdown).not.toContain('conventionalcommits.org');
+    });
+
+    test('should escape pipes in table cells', () => {
+      const markdown = renderMarkdown(render('feat: support a | b'));
+      expect(markdown).toContain('| Description | support a \\| b |');
+    });
+  });
+
+  test('should convert issues to annotations', () => {
+    const annotations = renderAnnotations(validator.validate('Feat: added login'));
+    expect(annotations).toEqual([
+      {
+        level: 'error',
+        title: 'Title check: TYPE_NOT_LOWERCASE',
+        message: 'Type must be lowercase\nExample: feat: add new feature',
+      },
+      expect.objectContaining({ level: 'warning', title: 'Title check: NON_IMPERATIVE_MOOD' }),
+    ]);
+    expect(renderAnnotations()).toEqual([]);
+  });
+
+  test('should render the result of every commit', () => {
+    const text = renderCommitsText([
+      { sha: '1111111aaaa', header: 'feat: add login', result: validator.validate('feat: add login') },
+      { sha: '2222222bbbb', header: 'Merge branch main', skipped: 'merge' },
+      { sha: '3333333cccc', header: 'Fix: typo', result: validator.validate('Fix: typo') },
+    ]);
+    expect(text).toContain('❌ 1 commit(s) do not conform');
+    expect(text).toContain('✅ 1111111 feat: add login');
+    expect(text).toContain('⏭️  2222222 Merge branch main (skipped merge)');
+    expect(text).toContain('❌ 3333333 "Fix: typo"');
+    expect(text).toContain('   • Type must be lowercase');
+  });
+});
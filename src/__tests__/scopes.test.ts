@@ -0,0 +1,49 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { ChangedFilesProvider, OctokitPullRequestClient } from '../github';
+import { getChangedScopes, inferScopes } from '../scopes';
+import { MockOctokit } from './mocks/octokit';
+
+describe('scopes of changed files', () => {
+  const scopePaths = {
+    storage: ['engine/storage/**', 'lib/tsdb/**'],
+    query: ['query/**', '**/*.influxql'],
+    docs: ['*.md', 'docs/**'],
+  };
+
+  const provider = (files: string[]): ChangedFilesProvider => ({ listChangedFiles: async () => files });
+
+  test('should return the scopes matched by any changed file, in config order', () => {
+    expect(inferScopes(['query/planner.go', 'README.md', 'go.mod'], scopePaths)).toEqual(['query', 'docs']);
+    expect(inferScopes(['tests/select.influxql'], scopePaths)).toEqual(['query']);
+    expect(inferScopes(['engine/storage/.keep'], scopePaths)).toEqual(['storage']);
+  });
+
+  test('should return no scope when no file matches', () => {
+    expect(inferScopes(['go.mod', 'docs-old/index.html'], scopePaths)).toEqual([]);
+  });
+
+  test('should read the files from the provider', async () => {
+    await expect(getChangedScopes(provider(['lib/tsdb/shard.go']), scopePaths)).resolves.toEqual(['storage']);
+  });
+
+  test('should count both locations of a renamed file', async () => {
+    const octokit = new MockOctokit();
+    octokit.files = [{ filename: 'query/shard.go', previous_filename: 'engine/storage/shard.go' }];
+    const client = new OctokitPullRequestClient(octokit.asOctokit(), { owner: 'openGemini', repo: 'openGemini' }, 42);
+    await expect(getChangedScopes(client, scopePaths)).resolves.toEqual(['storage', 'query']);
+  });
+});
@@ -0,0 +1,64 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { getSkipReason, isBot } from '../skip';
+import { SkipRules } from '../types';
+
+describe('skip rules', () => {
+  const rules: SkipRules = {
+    authors: ['Release-Manager'],
+    bots: true,
+    labels: ['skip-title-check'],
+    drafts: true,
+    patterns: [/^Release v\d+/, /^Bump /],
+  };
+  const none: SkipRules = { authors: [], bots: false, labels: [], drafts: false, patterns: [] };
+
+  test('should detect bot accounts by type or login', () => {
+    expect(isBot('renovate', 'Bot')).toBe(true);
+    expect(isBot('dependabot[bot]')).toBe(true);
+    expect(isBot('octocat', 'User')).toBe(false);
+  });
+
+  test('should skip ignored authors case-insensitively', () => {
+    expect(getSkipReason({ title: 'wip', author: 'release-manager' }, rules)).toBe('author "release-manager" is ignored');
+  });
+
+  test('should skip bots only when enabled', () => {
+    const target = { title: 'Update dependency jest to v30', author: 'renovate[bot]', authorType: 'Bot' };
+    expect(getSkipReason(target, rules)).toBe('author "renovate[bot]" is a bot');
+    expect(getSkipReason(target, none)).toBeUndefined();
+  });
+
+  test('should skip PRs with an ignored label', () => {
+    const target = { title: 'wip', labels: ['bug', 'Skip-Title-Check'] };
+    expect(getSkipReason(target, rules)).toBe('label "Skip-Title-Check" is set');
+  });
+
+  test('should skip drafts only when enabled', () => {
+    expect(getSkipReason({ title: 'wip', draft: true }, rules)).toBe('pull request is a draft');
+    expect(getSkipReason({ title: 'wip', draft: true }, none)).toBeUndefined();
+  });
+
+  test('should skip titles matching a pattern', () => {
+    expect(getSkipReason({ title: 'Release v1.4.0' }, rules)).toBe('title matches ignore pattern /^Release v\\d+/');
+    expect(getSkipReason({ title: 'feat: release v1.4.0' }, rules)).toBeUndefined();
+  });
+
+  test('should check titles when no rule matches', () => {
+    expect(getSkipReason({ title: 'fix: typo', author: 'octocat', authorType: 'User', labels: ['bug'], draft: false }, rules))
+      .toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, test, expect } from '@jest/globals';
+import { getDisplayWidth, getGraphemes } from '../unicode';
+
+describe('unicode', () => {
+  test('should split text into grapheme clusters', () => {
+    expect(getGraphemes('añ👩‍👩‍👧')).toEqual(['a', 'ñ', '👩‍👩‍👧']);
+    expect(getGraphemes('é')).toHaveLength(1);
+  });
+
+  test.each([
+    ['add login', 9],
+    ['添加登录', 8],
+    ['ＡＢＣ', 6],
+    ['é', 1],
+    ['🎉', 2],
+    ['👩‍👩‍👧', 2],
+    ['❤️', 2],
+    ['❤', 1],
+    ['🚀', 2],
+    ['🩹', 2],
+    ['✨', 2],
+    ['⚡', 2],
+    ['🇨🇳', 2],
+    ['👍🏽', 2],
+    ['añadir', 6],
+  ])('should measure the display width of "%s" as %d', (text, expected) => {
+    expect(getDisplayWidth(text)).toBe(expected);
+  });
+});
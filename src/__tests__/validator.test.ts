@@ -13,6 +13,8 @@
 // limitations under the License.
 
 import { describe, test, expect } from '@jest/globals';
+import { TICKET_PATTERN } from '../rules';
+import { TicketLocation } from '../types';
 import { ConventionalCommitValidator } from '../validator';
 
 describe('ConventionalCommitValidator', () => {
@@ -227,22 +229,56 @@ describe('ConventionalCommitValidator', () => {
 
     test.each([
       'feat: added feature',
-      'feat: adds feature',
-      'feat: adding feature',
       'feat: updated code',
-      'feat: updates code',
-      'feat: updating code',
       'feat: fixed bug',
-      'feat: fixes bug',
-      'feat: fixing bug',
       'feat: removed file',
-      'feat: removes file',
-      'feat: removing file',
+      'feat: implemented login',
+      'refactor: refactored parser',
+      'refactor: rewrote parser',
     ])('should detect non-imperative mood: %s', (title) => {
       const result = strictValidator.validate(title);
       expect(result.isValid).toBe(false);
       expect(result.errors.some(e => e.code === 'NON_IMPERATIVE_MOOD')).toBe(true);
     });
+
+    test.each([
+      'feat: adds feature',
+      'feat: adding feature',
+      'feat: updates code',
+      'feat: fixing bug',
+      'feat: introduces retries',
+      'fix: tests failing on windows',
+      'chore: logging cleanup',
+    ])('should only warn about forms that can also be nouns: %s', (title) => {
+      const result = strictValidator.validate(title);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings.map(e => e.code)).toEqual(['POSSIBLE_NON_IMPERATIVE_MOOD']);
+    });
+
+    test('should show the base form of the verb in the example', () => {
+      const result = strictValidator.validate('feat(auth): implemented login flow');
+      expect(result.errors).toEqual([expect.objectContaining({
+        code: 'NON_IMPERATIVE_MOOD',
+        example: 'feat: implement login flow (not "implemented")',
+      })]);
+    });
+
+    test('should show an example that passes the case and period rules', () => {
+      const result = strictValidator.validate('Feat: Added login flow.');
+      expect(result.errors.find(e => e.code === 'NON_IMPERATIVE_MOOD')?.example)
+        .toBe('feat: add login flow (not "Added")');
+    });
+
+    test('should accept verbs that only look inflected', () => {
+      expect(strictValidator.validate('fix: address review comments').isValid).toBe(true);
+      expect(strictValidator.validate('fix: process queued events').isValid).toBe(true);
+    });
+
+    test('should detect forms of configured verbs', () => {
+      const validator = new ConventionalCommitValidator({ imperativeVerbs: ['vendor'] });
+      expect(strictValidator.validate('build: vendored zstd').isValid).toBe(true);
+      expect(validator.validate('build: vendored zstd').errors.map(e => e.code)).toEqual(['NON_IMPERATIVE_MOOD']);
+    });
   });
 
   describe('ASCII character validation', () => {
@@ -264,6 +300,52 @@ describe('ConventionalCommitValidator', () => {
       const result = validator.validate('feat: add @#$%^&*()_+-=[]{}|;:,.<>?');
       expect(result.isValid).toBe(true);
     });
+
+    test('should report a full-width colon instead of the format error', () => {
+      const result = validator.validate('feat(api)：add login');
+      expect(result.errors.map(e => e.code)).toEqual(['NON_ASCII_CHARACTERS', 'FULLWIDTH_COLON']);
+      expect(result.errors[1].example).toBe('feat(api): add login');
+    });
+  });
+
+  describe('Unicode mode', () => {
+    const validator = new ConventionalCommitValidator({ strict: true, unicode: true });
+
+    test.each([
+      'feat(storage): 支持 zstd 压缩',
+      'fix: 修复查询超时',
+      'docs: add 🎉 to the release notes',
+      'feat: añadir soporte de índices',
+    ])('should accept Unicode descriptions: %s', (title) => {
+      expect(validator.validate(title).isValid).toBe(true);
+    });
+
+    test('should keep the type and scope ASCII', () => {
+      expect(validator.validate('功能: 添加登录').errors.map(e => e.code)).toContain('NON_ASCII_CHARACTERS');
+      expect(validator.validate('feat(存储): 添加压缩').errors.map(e => e.code)).toContain('NON_ASCII_CHARACTERS');
+      expect(validator.validate('feat: add\u0007 login').errors.map(e => e.code)).toEqual(['NON_ASCII_CHARACTERS']);
+    });
+
+    test('should measure the description in display columns', () => {
+      const limited = new ConventionalCommitValidator({ unicode: true, maxDescriptionLength: 10 });
+      expect(limited.validate('feat: 添加登录').isValid).toBe(true);
+      expect(limited.validate('feat: 添加用户登录').errors).toEqual([expect.objectContaining({
+        code: 'DESCRIPTION_TOO_LONG',
+        message: 'Description must not exceed 10 columns (full-width characters count as two)',
+      })]);
+      expect(limited.validate('feat: add 👩‍👩‍👧 doc').isValid).toBe(true);
+    });
+
+    test('should only report uppercase letters and full stops in strict mode', () => {
+      expect(validator.validate('feat: Ñadir soporte').errors.map(e => e.code)).toEqual(['DESCRIPTION_NOT_LOWERCASE']);
+      expect(validator.validate('fix: 修复查询超时。').errors.map(e => e.code)).toEqual(['DESCRIPTION_ENDS_WITH_PERIOD']);
+    });
+
+    test('should report a full-width colon', () => {
+      const result = validator.validate('feat：添加用户登录');
+      expect(result.errors.map(e => e.code)).toEqual(['FULLWIDTH_COLON']);
+      expect(result.errors[0].example).toBe('feat: 添加用户登录');
+    });
   });
 
   describe('edge cases', () => {
@@ -315,6 +397,249 @@ describe('ConventionalCommitValidator', () => {
     });
   });
 
+  describe('error positions', () => {
+    const validator = new ConventionalCommitValidator({ strict: true });
+
+    test.each([
+      ['Feat: add login', 'TYPE_NOT_LOWERCASE', 0, 4],
+      ['feat(): add login', 'EMPTY_SCOPE', 4, 6],
+      ['feat(API): add login', 'SCOPE_NOT_LOWERCASE', 5, 8],
+      ['feat!(api): add login', 'INVALID_BREAKING_CHANGE_POSITION', 4, 5],
+      ['feat:add login', 'MISSING_SPACE_AFTER_COLON', 4, 5],
+      ['feat:   add login', 'MULTIPLE_SPACES_AFTER_COLON', 5, 8],
+      ['feat:  add login', 'DESCRIPTION_HAS_LEADING_SPACE', 6, 7],
+      ['feat: add login  ', 'DESCRIPTION_HAS_TRAILING_SPACE', 15, 17],
+      ['feat: Add login', 'DESCRIPTION_NOT_LOWERCASE', 6, 7],
+      ['feat: add login.', 'DESCRIPTION_ENDS_WITH_PERIOD', 15, 16],
+      ['feat: added login', 'NON_IMPERATIVE_MOOD', 6, 11],
+      ['feat: add café', 'NON_ASCII_CHARACTERS', 13, 14],
+    ])('should locate the error in "%s"', (title, code, start, end) => {
+      const error = validator.validate(title).errors.find((e) => e.code === code);
+      expect(error?.span).toEqual({ start, end });
+    });
+
+    test('should locate the part of the description beyond the maximum length', () => {
+      const result = new ConventionalCommitValidator({ strict: true, maxDescriptionLength: 10 })
+        .validate('feat: add a long description');
+      expect(result.errors[0].span).toEqual({ start: 16, end: 28 });
+    });
+
+    test('should not locate errors about the whole title', () => {
+      expect(validator.validate('add login').errors[0].span).toBeUndefined();
+    });
+
+    test('should return the position of each component', () => {
+      expect(validator.parseTitle('fix(api)!: resolve timeout')?.spans).toEqual({
+        type: { start: 0, end: 3 },
+        scope: { start: 4, end: 7 },
+        breaking: { start: 8, end: 9 },
+        colon: { start: 9, end: 10 },
+        description: { start: 10, end: 26 },
+      });
+    });
+  });
+
+  describe('revert titles', () => {
+    const validator = new ConventionalCommitValidator({ strict: true });
+
+    test.each([
+      'Revert "feat(api): add v2 endpoints"',
+      'Revert "Revert "fix: handle empty result""',
+      'revert: feat(api): add v2 endpoints',
+      'revert: let us never again speak of the noodle incident',
+    ])('should accept the revert: %s', (title) => {
+      expect(validator.validate(title).errors).toEqual([]);
+    });
+
+    test('should parse a GitHub revert as a revert of the original title', () => {
+      const components = validator.validate('Revert "feat(api): add v2 endpoints"').components;
+      expect(components).toMatchObject({ type: 'revert', description: ' feat(api): add v2 endpoints' });
+    });
+
+    test('should report the issues of the reverted title at their position', () => {
+      const result = validator.validate('Revert "Feat: added login."');
+      expect(result.errors.map((e) => e.code)).toEqual([
+        'TYPE_NOT_LOWERCASE',
+        'DESCRIPTION_ENDS_WITH_PERIOD',
+        'NON_IMPERATIVE_MOOD',
+      ]);
+      expect(result.errors[0]).toMatchObject({
+        message: 'Reverted title: Type must be lowercase',
+        span: { start: 8, end: 12 },
+      });
+    });
+
+    test('should check the reverted title in the description of a conventional revert', () => {
+      const result = validator.validate('revert: fix(API): handle empty result');
+      expect(result.errors.map((e) => e.code)).toEqual(['SCOPE_NOT_LOWERCASE']);
+      expect(result.errors[0].span).toEqual({ start: 12, end: 15 });
+    });
+
+    test('should report a GitHub revert that is not a Conventional Commits title', () => {
+      const result = validator.validate('Revert "Update README"');
+      expect(result.errors.map((e) => e.code)).toEqual(['INVALID_FORMAT']);
+    });
+
+    test('should report a revert when revert is not an allowed type', () => {
+      const result = new ConventionalCommitValidator({ allowedTypes: ['feat', 'fix'] })
+        .validate('Revert "feat: add login"');
+      expect(result.errors.map((e) => e.code)).toEqual(['INVALID_TYPE']);
+    });
+
+    test('should require a reference to the reverted change in the body when enabled', () => {
+      const strictRevert = new ConventionalCommitValidator({ revertReference: true });
+      const title = 'Revert "feat: add login"';
+      expect(strictRevert.validate(title).isValid).toBe(true);
+      expect(strictRevert.validate(title, 'This reverts commit 1a2b3c4d.').isValid).toBe(true);
+      expect(strictRevert.validate(title, 'Reverts #42').isValid).toBe(true);
+      expect(strictRevert.validate(title, 'Broke the build').errors.map((e) => e.code))
+        .toEqual(['MISSING_REVERT_REFERENCE']);
+      expect(strictRevert.validate('feat: add login', 'Broke the build').isValid).toBe(true);
+    });
+  });
+
+  describe('emoji prefix', () => {
+    const validator = new ConventionalCommitValidator({
+      strict: true,
+      emojiPrefix: true,
+      emojiTypes: { feat: ['✨'], fix: [':bug:', '🚑'] },
+    });
+
+    test.each([
+      '✨ feat(auth): add login',
+      ':sparkles: feat: add login',
+      '🚑 fix: handle empty response',
+      '🐛 fix: handle empty response',
+      '📝 docs: update readme',
+      'feat: add login',
+    ])('should accept %s', (title) => {
+      expect(validator.validate(title).errors).toEqual([]);
+    });
+
+    test('should reject an emoji prefix unless enabled', () => {
+      const result = new ConventionalCommitValidator().validate('✨ feat: add login');
+      expect(result.errors.map((e) => e.code)).toContain('INVALID_FORMAT');
+    });
+
+    test('should expose the emoji and shift the positions past it', () => {
+      const components = validator.validate('✨ feat(auth): add login').components;
+      expect(components).toMatchObject({ emoji: '✨', type: 'feat', scope: 'auth', description: ' add login' });
+      expect(components?.spans).toMatchObject({
+        emoji: { start: 0, end: 1 },
+        type: { start: 2, end: 6 },
+        scope: { start: 7, end: 11 },
+      });
+      expect(validator.parseTitle(':bug: fix: handle empty response')).toMatchObject({ emoji: ':bug:', type: 'fix' });
+    });
+
+    test('should report the issues of the title after the emoji at their position', () => {
+      const result = validator.validate('✨ Feat: add login');
+      expect(result.errors.map((e) => e.code)).toEqual(['TYPE_NOT_LOWERCASE']);
+      expect(result.errors[0].span).toEqual({ start: 2, end: 6 });
+    });
+
+    test('should report an emoji that does not match the type', () => {
+      const result = validator.validate('🐛 feat: add login');
+      expect(result.errors.map((e) => e.code)).toEqual(['EMOJI_TYPE_MISMATCH']);
+      expect(result.errors[0]).toMatchObject({
+        message: 'Emoji 🐛 does not match type "feat", which uses: ✨',
+        example: '✨ feat: add login',
+        span: { start: 0, end: 2 },
+      });
+    });
+  });
+
+  describe('custom title pattern', () => {
+    const validator = new ConventionalCommitValidator({
+      strict: true,
+      titlePattern: /^\[(?<scope>[^\]]*)\] (?<description>.*)$/,
+    });
+
+    test('should parse the named groups into the components', () => {
+      const components = validator.parseTitle('[storage] add retention policy');
+      expect(components).toEqual({
+        type: '',
+        scope: 'storage',
+        ticket: undefined,
+        isBreakingChange: false,
+        description: 'add retention policy',
+        spans: {
+          type: undefined,
+          scope: { start: 1, end: 8 },
+          ticket: undefined,
+          breaking: undefined,
+          description: { start: 10, end: 30 },
+        },
+      });
+      expect(validator.validate('[storage] add retention policy').errors).toEqual([]);
+    });
+
+    test('should check the description and scope of the pattern with the same rules', () => {
+      const result = validator.validate('[Storage] Added retention policy.');
+      expect(result.errors.map((e) => e.code)).toEqual([
+        'SCOPE_NOT_LOWERCASE',
+        'DESCRIPTION_NOT_LOWERCASE',
+        'DESCRIPTION_ENDS_WITH_PERIOD',
+        'NON_IMPERATIVE_MOOD',
+      ]);
+      expect(result.errors.map((e) => e.span)).toEqual([
+        { start: 1, end: 8 },
+        { start: 10, end: 11 },
+        { start: 32, end: 33 },
+        { start: 10, end: 15 },
+      ]);
+      expect(result.errors.every((e) => e.example === undefined)).toBe(true);
+    });
+
+    test('should report a title that does not match the pattern', () => {
+      const result = validator.validate('feat(storage): add retention policy');
+      expect(result.errors.map((e) => e.code)).toEqual(['INVALID_FORMAT']);
+      expect(result.errors[0].message)
+        .toBe('Title format is incorrect. Expected a title matching /^\\[(?<scope>[^\\]]*)\\] (?<description>.*)$/');
+    });
+
+    test('should check a captured type against the allowed types', () => {
+      const typed = new ConventionalCommitValidator({ titlePattern: /^(?<type>\w+) \| (?<description>.+)$/ });
+      expect(typed.validate('feat | add login').isValid).toBe(true);
+      expect(typed.validate('oops | add login').errors.map((e) => e.code)).toEqual(['INVALID_TYPE']);
+    });
+
+    test('should accept a captured ticket and check a description in the middle of the title', () => {
+      const ticketed = new ConventionalCommitValidator({
+        titlePattern: /^(?<description>.+?) \((?<ticket>[A-Z]+-\d+)\)$/,
+        ticket: { location: 'body', pattern: TICKET_PATTERN, exemptTypes: [] },
+      });
+      expect(ticketed.validate('add login (GEMINI-123)', 'No reference').isValid).toBe(true);
+      expect(ticketed.parseTitle('add login (GEMINI-123)')).toMatchObject({
+        ticket: 'GEMINI-123',
+        spans: { ticket: { start: 11, end: 21 }, description: { start: 0, end: 9 } },
+      });
+      const result = ticketed.validate('add login. (GEMINI-123)');
+      expect(result.errors.map((e) => e.code)).toEqual(['DESCRIPTION_ENDS_WITH_PERIOD']);
+      expect(result.errors[0].span).toEqual({ start: 9, end: 10 });
+    });
+
+    test('should not treat a title as a revert', () => {
+      expect(validator.parseRevert('[storage] Revert "add retention policy"')).toBeUndefined();
+    });
+  });
+
+  describe('max header length', () => {
+    test('should not limit the title length by default', () => {
+      const validator = new ConventionalCommitValidator({ strict: true });
+      expect(validator.validate(`feat(${'a'.repeat(80)}): add login`).isValid).toBe(true);
+    });
+
+    test('should report a title longer than the maximum', () => {
+      const validator = new ConventionalCommitValidator({ strict: true, maxHeaderLength: 21 });
+      expect(validator.validate('feat(auth): add login').isValid).toBe(true);
+      const result = validator.validate('feat(auth): add user login');
+      expect(result.errors.map((e) => e.code)).toEqual(['HEADER_TOO_LONG']);
+      expect(result.errors[0].message).toBe('Title must not exceed 21 characters');
+      expect(result.errors[0].span).toEqual({ start: 21, end: 26 });
+    });
+  });
+
   describe('custom max description length', () => {
     test('should use default max length of 50', () => {
       const validator = new ConventionalCommitValidator({ strict: true });
@@ -357,4 +682,179 @@ describe('ConventionalCommitValidator', () => {
       expect(error?.message).toContain('72');
     });
   });
+
+  describe('configured types and scopes', () => {
+    test('should accept custom types', () => {
+      const validator = new ConventionalCommitValidator({ allowedTypes: ['feat', 'deps', 'security'] });
+      expect(validator.validate('deps: bump yaml').isValid).toBe(true);
+      expect(validator.validate('security: patch header parsing').isValid).toBe(true);
+    });
+
+    test('should list configured types in the error message', () => {
+      const validator = new ConventionalCommitValidator({ allowedTypes: ['feat', 'deps'] });
+      const result = validator.validate('docs: update readme');
+      const error = result.errors.find(e => e.code === 'INVALID_TYPE');
+      expect(error?.message).toBe('Type must be one of: feat, deps');
+      expect(error?.example).toBe('feat: add new feature');
+    });
+
+    test('should accept any valid scope when no scopes are configured', () => {
+      const validator = new ConventionalCommitValidator();
+      expect(validator.validate('fix(anything): resolve timeout').isValid).toBe(true);
+    });
+
+    test('should accept configured scopes', () => {
+      const validator = new ConventionalCommitValidator({ allowedScopes: ['storage', 'query'] });
+      expect(validator.validate('fix(storage): resolve timeout').isValid).toBe(true);
+      expect(validator.validate('fix: resolve timeout').isValid).toBe(true);
+    });
+
+    test('should reject scopes outside the configured list', () => {
+      const validator = new ConventionalCommitValidator({ allowedScopes: ['storage', 'query'] });
+      const result = validator.validate('fix(meta): resolve timeout');
+      expect(result.isValid).toBe(false);
+      const error = result.errors.find(e => e.code === 'INVALID_SCOPE');
+      expect(error?.message).toBe('Scope must be one of: storage, query');
+      expect(error?.example).toBe('feat(storage): add user login');
+    });
+
+    test('should compare scopes case-insensitively in lenient mode', () => {
+      const validator = new ConventionalCommitValidator({ strict: false, allowedScopes: ['storage'] });
+      expect(validator.validate('fix(Storage): resolve timeout').isValid).toBe(true);
+    });
+  });
+
+  describe('rule severities', () => {
+    test('should report errors with error severity by default', () => {
+      const validator = new ConventionalCommitValidator();
+      const result = validator.validate('feat: added something');
+      expect(result.errors[0].severity).toBe('error');
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    test('should report warnings separately without failing', () => {
+      const validator = new ConventionalCommitValidator({ severity: { NON_IMPERATIVE_MOOD: 'warning' } });
+      const result = validator.validate('feat: added something');
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toMatchObject({ code: 'NON_IMPERATIVE_MOOD', severity: 'warning' });
+    });
+
+    test('should keep failing on errors when warnings are present', () => {
+      const validator = new ConventionalCommitValidator({ severity: { NON_IMPERATIVE_MOOD: 'warning' } });
+      const result = validator.validate('feat: Added something');
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.code)).toEqual(['DESCRIPTION_NOT_LOWERCASE']);
+      expect(result.warnings.map(e => e.code)).toEqual(['NON_IMPERATIVE_MOOD']);
+    });
+
+    test('should drop rules that are turned off', () => {
+      const validator = new ConventionalCommitValidator({ severity: { DESCRIPTION_TOO_LONG: 'off' } });
+      const result = validator.validate(`feat: ${'a'.repeat(80)}`);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    test('should enable strict-only rules in lenient mode when configured', () => {
+      const validator = new ConventionalCommitValidator({
+        strict: false,
+        severity: { DESCRIPTION_ENDS_WITH_PERIOD: 'error' },
+      });
+      expect(validator.validate('feat: Add something').isValid).toBe(true);
+      const result = validator.validate('feat: add something.');
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.code)).toEqual(['DESCRIPTION_ENDS_WITH_PERIOD']);
+    });
+  });
+
+  describe('ticket reference', () => {
+    const ticket = (location: TicketLocation) => new ConventionalCommitValidator({
+      ticket: { location, pattern: TICKET_PATTERN, exemptTypes: ['chore', 'docs'] },
+    });
+
+    test.each([
+      'feat: add user login GEMINI-123',
+      'feat: add user login (GEMINI-123)',
+      'feat: add user login [#123]',
+    ])('should accept a ticket reference at the end of "%s"', (title) => {
+      expect(ticket('suffix').validate(title).isValid).toBe(true);
+    });
+
+    test('should reject a title without a ticket reference at the end', () => {
+      const result = ticket('suffix').validate('fix: handle GEMINI-123 in the query');
+      expect(result.errors).toEqual([expect.objectContaining({
+        code: 'MISSING_TICKET_REFERENCE',
+        message: 'Title must end with a ticket reference matching /[A-Z][A-Z0-9]+-\\d+|#\\d+/',
+        example: 'fix: add user login (GEMINI-123)',
+      })]);
+    });
+
+    test('should require the scope to be a ticket reference', () => {
+      const validator = ticket('scope');
+      expect(validator.validate('fix(GEMINI-123): handle empty result').isValid).toBe(true);
+      expect(validator.validate('fix(query): handle empty result').errors.map(e => e.code))
+        .toEqual(['MISSING_TICKET_REFERENCE']);
+      expect(validator.validate('fix: handle empty result').isValid).toBe(false);
+    });
+
+    test('should not check the case, format or list of a ticket scope', () => {
+      const validator = new ConventionalCommitValidator({
+        allowedScopes: ['api'],
+        ticket: { location: 'scope', pattern: TICKET_PATTERN, exemptTypes: [] },
+      });
+      expect(validator.validate('feat(GEMINI-123): add user login').errors).toEqual([]);
+      expect(validator.validate('feat(#12): add user login').errors).toEqual([]);
+      expect(validator.validate('feat(Query): add user login').errors.map(e => e.code))
+        .toEqual(['SCOPE_NOT_LOWERCASE', 'INVALID_SCOPE', 'MISSING_TICKET_REFERENCE']);
+    });
+
+    test('should look for the ticket reference in the body', () => {
+      const validator = ticket('body');
+      expect(validator.validate('feat: add user login', 'Closes #42').isValid).toBe(true);
+      expect(validator.validate('feat: add user login', 'Adds OAuth2 support').isValid).toBe(false);
+      expect(validator.validateMessage('feat: add user login\n\nRefs: GEMINI-7').isValid).toBe(true);
+    });
+
+    test('should not check the body when it is unknown', () => {
+      expect(ticket('body').validate('feat: add user login').isValid).toBe(true);
+    });
+
+    test('should exempt configured types', () => {
+      expect(ticket('suffix').validate('chore: bump dependencies').isValid).toBe(true);
+      expect(ticket('suffix').validate('Docs: update readme').errors.map(e => e.code)).toEqual(['TYPE_NOT_LOWERCASE']);
+    });
+  });
+
+  describe('scopes of the changed files', () => {
+    const validator = new ConventionalCommitValidator();
+
+    test('should accept a scope touched by the changed files', () => {
+      const result = validator.validateChangedScopes(validator.validate('fix(query): handle empty result'), ['storage', 'query']);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.changedScopes).toEqual(['storage', 'query']);
+    });
+
+    test('should reject a scope that matches none of the changed files', () => {
+      const result = validator.validateChangedScopes(validator.validate('fix(storage): handle empty result'), ['query']);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        code: 'SCOPE_MISMATCH',
+        message: 'Scope "storage" does not match the changed files, which belong to: query',
+        example: 'fix(query): handle empty result',
+      });
+    });
+
+    test('should suggest a scope as a warning when none was given', () => {
+      const result = validator.validateChangedScopes(validator.validate('fix: handle empty result'), ['query']);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings.map(e => e.code)).toEqual(['MISSING_SCOPE']);
+    });
+
+    test('should not check the scope when no area was touched', () => {
+      const titleResult = validator.validate('fix(storage): handle empty result');
+      expect(validator.validateChangedScopes(titleResult, [])).toBe(titleResult);
+    });
+  });
 });
@@ -0,0 +1,417 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { formatMessage, getCatalog } from './i18n';
+import { getImperative, isAmbiguousForm } from './mood';
+import { ERROR_CODES, PATTERNS } from './rules';
+import {
+  ErrorCode,
+  Language,
+  MessageKey,
+  MessageParams,
+  Rule,
+  RuleContext,
+  RuleOptions,
+  Span,
+  TitleComponents,
+  ValidationError,
+} from './types';
+import { getDisplayWidth, getGraphemes } from './unicode';
+
+/**
+ * How a built-in error is reported: the language, the values of the message placeholders,
+ * a message variant, and an example replacing the one of the catalog
+ */
+export interface BuiltinErrorOptions {
+  language?: Language;
+  params?: MessageParams;
+  key?: MessageKey;
+  example?: string;
+  span?: Span;
+}
+
+/**
+ * Creates the error of a built-in rule with its message and example in the given language.
+ * The validator replaces the severity with the configured one.
+ */
+export function builtinError(
+  code: ErrorCode,
+  { language, params, key = code, example, span }: BuiltinErrorOptions = {},
+): ValidationError {
+  const catalog = getCatalog(language);
+  return {
+    code: ERROR_CODES[code],
+    message: formatMessage(catalog.messages[key], params),
+    example: example ?? formatMessage(catalog.examples[code], params),
+    severity: 'error',
+    ...(span && { span }),
+  };
+}
+
+/**
+ * Creates the errors of a rule in the language of the options
+ */
+type Reporter = (code: ErrorCode, options?: Omit<BuiltinErrorOptions, 'language'>) => ValidationError;
+
+/**
+ * Defines a rule whose errors are created by a reporter. The examples are Conventional Commits
+ * titles, so they are left out when titles follow a custom title pattern.
+ */
+function rule(name: string, check: (context: RuleContext, report: Reporter) => ValidationError[]): Rule {
+  return {
+    name,
+    check: (context) => check(context, (code, options) => {
+      const { example, ...error } = builtinError(code, { ...options, language: context.options.language });
+      return context.options.titlePattern ? error : { ...error, example };
+    }),
+  };
+}
+
+/**
+ * Defines a rule that only runs on titles that could be parsed
+ */
+function parsedRule(
+  name: string,
+  check: (components: TitleComponents, context: RuleContext, report: Reporter) => ValidationError[],
+): Rule {
+  return rule(name, (context, report) => (context.components ? check(context.components, context, report) : []));
+}
+
+/**
+ * Defines a rule about the Conventional Commits syntax, which does not run with a custom title pattern
+ */
+function conventionalRule(name: string, check: (context: RuleContext, report: Reporter) => ValidationError[]): Rule {
+  return rule(name, (context, report) => (context.options.titlePattern ? [] : check(context, report)));
+}
+
+/**
+ * Returns a pattern that matches the whole text against a ticket pattern
+ */
+function fullTicketPattern(pattern: RegExp): RegExp {
+  return new RegExp(`^(?:${pattern.source})$`, pattern.flags);
+}
+
+/**
+ * Checks whether the scope is the ticket reference required in the scope. Such a scope is
+ * left to the ticket rule, since tickets are usually uppercase and not in the list of scopes.
+ */
+function isTicketScope(scope: string, { ticket }: RuleOptions): boolean {
+  return ticket?.location === 'scope' && fullTicketPattern(ticket.pattern).test(scope);
+}
+
+/**
+ * Returns where the description starts in the title
+ */
+function descriptionStart({ description, spans }: TitleComponents, title: string): number {
+  return spans?.description.start ?? title.length - description.length;
+}
+
+/**
+ * Returns the description without the single space expected after the colon
+ */
+function cleanDescription(description: string): string {
+  return description.startsWith(' ') ? description.substring(1) : description;
+}
+
+/**
+ * Checks whether the description has any content
+ */
+function hasDescription(description: string): boolean {
+  return cleanDescription(description).trim().length > 0;
+}
+
+/**
+ * Returns the span of the first match of a pattern in a part of the title that starts at an offset
+ */
+function matchSpan(text: string, pattern: RegExp, offset = 0): Span | undefined {
+  const match = pattern.exec(text);
+  return match ? { start: offset + match.index, end: offset + match.index + match[0].length } : undefined;
+}
+
+/**
+ * Returns the offset in text after the given number of display columns
+ */
+function offsetAtWidth(text: string, width: number): number {
+  let offset = 0;
+  for (const grapheme of getGraphemes(text)) {
+    if (getDisplayWidth(text.substring(0, offset + grapheme.length)) > width) {
+      break;
+    }
+    offset += grapheme.length;
+  }
+  return offset;
+}
+
+/**
+ * Built-in rules, in the order their errors are reported.
+ * Each one can be disabled by name with the `disabledRules` option.
+ */
+export const BUILTIN_RULES: readonly Rule[] = [
+  // Only displayable ASCII characters; in Unicode mode, only the type and scope must be ASCII
+  // With a custom title pattern, everything before the description must be ASCII
+  rule('non-ascii', ({ title, components, options }, report) => {
+    if (!options.unicode) {
+      const span = matchSpan(title, /[^\x20-\x7E]+/);
+      return span ? [report('NON_ASCII_CHARACTERS', { span })] : [];
+    }
+    const prefix = options.titlePattern && components
+      ? title.substring(0, descriptionStart(components, title))
+      : title.split(/[:：]/)[0];
+    const span = matchSpan(prefix, /[^\x20-\x7E]+/) ?? matchSpan(title, PATTERNS.control);
+    return span ? [report('NON_ASCII_CHARACTERS', { key: 'NON_ASCII_CHARACTERS_UNICODE', span })] : [];
+  }),
+
+  // A full-width colon instead of ": ", reported instead of the format error
+  conventionalRule('fullwidth-colon', ({ title }, report) => (PATTERNS.fullWidthColon.test(title)
+    ? [report('FULLWIDTH_COLON', { example: title.replace(/\s*：\s*/, ': '), span: matchSpan(title, /：/) })]
+    : [])),
+
+  // The title must parse as <type>[(scope)][!]: <description>, or match the custom title pattern
+  rule('format', ({ title, components, options }, report) => {
+    if (components) {
+      return [];
+    }
+    if (options.titlePattern) {
+      return [report('INVALID_FORMAT', { key: 'INVALID_FORMAT_PATTERN', params: { pattern: options.titlePattern.source } })];
+    }
+    return PATTERNS.fullWidthColon.test(title) ? [] : [report('INVALID_FORMAT')];
+  }),
+
+  // Type must be lowercase
+  parsedRule('type-case', ({ type, spans }, _context, report) =>
+    (/[A-Z]/.test(type) ? [report('TYPE_NOT_LOWERCASE', { span: spans?.type })] : [])),
+
+  // Type (lowercased) must be in the allowed list; a custom title pattern may have no type
+  parsedRule('type-enum', ({ type, spans }, { options }, report) => {
+    if (options.allowedTypes.includes(type.toLowerCase()) || (options.titlePattern && type === '')) {
+      return [];
+    }
+    return [report('INVALID_TYPE', {
+      params: { types: options.allowedTypes.join(', '), type: options.allowedTypes[0] },
+      span: spans?.type,
+    })];
+  }),
+
+  // Parentheses must not be empty
+  parsedRule('scope-empty', ({ scope, spans }, _context, report) => (scope === '' && spans?.scope
+    ? [report('EMPTY_SCOPE', { span: { start: spans.scope.start - 1, end: spans.scope.end + 1 } })]
+    : scope === '' ? [report('EMPTY_SCOPE')] : [])),
+
+  // Scope must be lowercase (strict mode by default)
+  parsedRule('scope-case', ({ scope, spans }, { options }, report) =>
+    (scope && /[A-Z]/.test(scope) && !isTicketScope(scope, options)
+      ? [report('SCOPE_NOT_LOWERCASE', { span: spans?.scope })]
+      : [])),
+
+  // Scope may only contain letters, numbers, hyphens, and underscores (case is checked above)
+  parsedRule('scope-format', ({ scope, spans }, { options }, report) =>
+    (scope && !/^[a-zA-Z0-9_-]+$/.test(scope) && !isTicketScope(scope, options)
+      ? [report('INVALID_SCOPE_FORMAT', { span: spans?.scope })]
+      : [])),
+
+  // Scope must be in the configured list (case is checked above)
+  parsedRule('scope-enum', ({ scope, spans }, { options }, report) => {
+    const allowedScopes = options.allowedScopes;
+    if (!scope || !allowedScopes || allowedScopes.length === 0 || allowedScopes.includes(scope.toLowerCase())
+      || isTicketScope(scope, options)) {
+      return [];
+    }
+    return [report('INVALID_SCOPE', {
+      params: { scopes: allowedScopes.join(', '), type: options.allowedTypes[0], scope: allowedScopes[0] },
+      span: spans?.scope,
+    })];
+  }),
+
+  // The ! must come right before the colon, after the type or scope
+  conventionalRule('breaking-change-position', ({ components, title }, report) => {
+    if (!components) {
+      return [];
+    }
+    const isBreakingChange = components.isBreakingChange;
+    const colonIndex = title.indexOf(':');
+    const exclamationIndex = title.indexOf('!');
+    const span = exclamationIndex === -1 ? undefined : { start: exclamationIndex, end: exclamationIndex + 1 };
+
+    if (isBreakingChange) {
+      // Valid: feat!: or feat(scope)!:
+      // Invalid: fea!t: or feat!(scope): or f!eat:
+      if (exclamationIndex === -1 || exclamationIndex >= colonIndex || !/^[a-z]+(\([^)]*\))?!:/i.test(title)) {
+        return [report('INVALID_BREAKING_CHANGE_POSITION', { span })];
+      }
+    } else if (exclamationIndex !== -1 && exclamationIndex > colonIndex) {
+      // A marker in the description is not a breaking change marker
+      return [report('INVALID_BREAKING_CHANGE_POSITION', { span })];
+    }
+    return [];
+  }),
+
+  // Exactly one space after the colon
+  conventionalRule('description-spacing', ({ components, title }, report) => {
+    if (!components) {
+      return [];
+    }
+    const errors: ValidationError[] = [];
+    if (!title.includes(': ')) {
+      errors.push(report('MISSING_SPACE_AFTER_COLON', { span: components.spans?.colon }));
+    }
+    const spaces = matchSpan(title, /:(\s{2,})/);
+    if (spaces) {
+      errors.push(report('MULTIPLE_SPACES_AFTER_COLON', { span: { start: spaces.start + 1, end: spaces.end } }));
+    }
+    return errors;
+  }),
+
+  // Description is required
+  parsedRule('description-empty', ({ description, spans }, _context, report) =>
+    (hasDescription(description) ? [] : [report('MISSING_DESCRIPTION', { span: spans?.description })])),
+
+  // No extra space at the start of the description
+  parsedRule('description-leading-space', (components, { title }, report) => {
+    const text = cleanDescription(components.description);
+    const offset = descriptionStart(components, title) + components.description.length - text.length;
+    return hasDescription(text) && text.startsWith(' ')
+      ? [report('DESCRIPTION_HAS_LEADING_SPACE', { span: matchSpan(text, /^ +/, offset) })]
+      : [];
+  }),
+
+  // No space at the end of the description
+  parsedRule('description-trailing-space', (components, { title }, report) =>
+    (hasDescription(components.description) && components.description.endsWith(' ')
+      ? [report('DESCRIPTION_HAS_TRAILING_SPACE', {
+        span: matchSpan(components.description, / +$/, descriptionStart(components, title)),
+      })]
+      : [])),
+
+  // Description length, in display columns so that an emoji sequence and a CJK character count twice.
+  // The span is the part beyond the limit.
+  parsedRule('description-max-length', (components, { title, options }, report) => {
+    const { description } = components;
+    const text = cleanDescription(description);
+    if (!hasDescription(description) || getDisplayWidth(text) <= options.maxDescriptionLength) {
+      return [];
+    }
+    const end = descriptionStart(components, title) + description.length;
+    return [report('DESCRIPTION_TOO_LONG', {
+      key: options.unicode ? 'DESCRIPTION_TOO_LONG_UNICODE' : 'DESCRIPTION_TOO_LONG',
+      params: { maxLength: options.maxDescriptionLength },
+      span: { start: end - text.length + offsetAtWidth(text, options.maxDescriptionLength), end },
+    })];
+  }),
+
+  // Length of the whole title, when a maximum is set, in display columns like the description
+  rule('header-max-length', ({ title, options }, report) => {
+    if (options.maxHeaderLength === undefined || getDisplayWidth(title) <= options.maxHeaderLength) {
+      return [];
+    }
+    return [report('HEADER_TOO_LONG', {
+      params: { maxLength: options.maxHeaderLength },
+      span: { start: offsetAtWidth(title, options.maxHeaderLength), end: title.length },
+    })];
+  }),
+
+  // Description starts with a lowercase letter (strict mode by default); in Unicode mode,
+  // only an uppercase letter is reported, since scripts such as Chinese have no case
+  parsedRule('description-case', (components, { title, options }, report) => {
+    const { description } = components;
+    const trimmed = description.trim();
+    const notLowercase = options.unicode
+      ? PATTERNS.descriptionStartsUppercase.test(trimmed)
+      : !PATTERNS.descriptionStartsLowercase.test(trimmed);
+    return trimmed.length > 0 && notLowercase
+      ? [report('DESCRIPTION_NOT_LOWERCASE', { span: matchSpan(description, /\S/u, descriptionStart(components, title)) })]
+      : [];
+  }),
+
+  // Description does not end with a period, or an ideographic full stop in Unicode mode (strict mode by default)
+  parsedRule('description-full-stop', (components, { title, options }, report) => {
+    const { description } = components;
+    const pattern = options.unicode ? PATTERNS.endsWithFullStop : PATTERNS.endsWithPeriod;
+    return pattern.test(description.trim())
+      ? [report('DESCRIPTION_ENDS_WITH_PERIOD', {
+        span: matchSpan(description, /[.。]\s*$/, descriptionStart(components, title)),
+      })]
+      : [];
+  }),
+
+  // Issue or ticket reference, when required; exempt types and unknown bodies are not checked.
+  // A ticket captured by a custom title pattern is a reference wherever the location is.
+  parsedRule('ticket-reference', (components, { title, body, options }, report) => {
+    const { type, scope, description, spans } = components;
+    const ticket = options.ticket;
+    if (!ticket || ticket.exemptTypes.includes(type.toLowerCase())) {
+      return [];
+    }
+
+    const fullMatch = fullTicketPattern(ticket.pattern);
+    if (components.ticket !== undefined && fullMatch.test(components.ticket)) {
+      return [];
+    }
+    const params = { pattern: ticket.pattern.source, type: type.toLowerCase() };
+    if (ticket.location === 'suffix') {
+      // The last word of the description, optionally in parentheses or brackets
+      const lastWord = description.trim().split(/\s+/).pop() ?? '';
+      return fullMatch.test(lastWord.replace(/^[([]|[)\]]$/g, ''))
+        ? []
+        : [report('MISSING_TICKET_REFERENCE', {
+          params,
+          span: matchSpan(description, /\S+\s*$/, descriptionStart(components, title)),
+        })];
+    }
+    if (ticket.location === 'scope') {
+      return scope !== undefined && fullMatch.test(scope) ? [] : [report('MISSING_TICKET_REFERENCE', {
+        key: 'MISSING_TICKET_REFERENCE_SCOPE',
+        params,
+        example: `${params.type}(GEMINI-123): add user login`,
+        span: spans?.scope ?? spans?.type,
+      })];
+    }
+    return body === undefined || ticket.pattern.test(body) ? [] : [report('MISSING_TICKET_REFERENCE', {
+      key: 'MISSING_TICKET_REFERENCE_BODY',
+      params,
+      example: 'Refs: GEMINI-123',
+    })];
+  }),
+
+  // The body of a revert references the reverted commit or PR, when required and the body is known
+  parsedRule('revert-reference', ({ type }, { body, options }, report) =>
+    (options.revertReference && type.toLowerCase() === 'revert' && body !== undefined
+      && !PATTERNS.revertReference.test(body)
+      ? [report('MISSING_REVERT_REFERENCE')]
+      : [])),
+
+  // Description starts with an imperative verb (set its severity to "warning" to make it a suggestion)
+  // The example shows the description with the base form of the verb, lowercase and without a final period,
+  // so that it passes the other description rules. A third person or gerund form can also be a noun,
+  // as in "tests failing on windows", so it is only a warning by default and is not fixed
+  parsedRule('imperative-mood', (components, { title, options }, report) => {
+    const { type, description } = components;
+    const [firstWord, ...rest] = description.trim().split(/\s+/);
+    const imperative = getImperative(firstWord, options.imperativeVerbs);
+    return imperative
+      ? [report(isAmbiguousForm(firstWord) ? 'POSSIBLE_NON_IMPERATIVE_MOOD' : 'NON_IMPERATIVE_MOOD', {
+        params: {
+          type: type.toLowerCase(),
+          description: [imperative, ...rest].join(' ').replace(/[.。]+$/, ''),
+          word: firstWord,
+        },
+        span: matchSpan(description, /\S+/, descriptionStart(components, title)),
+      })]
+      : [];
+  }),
+];
+
+/**
+ * Names of the built-in rules
+ */
+export const BUILTIN_RULE_NAMES: readonly string[] = BUILTIN_RULES.map((rule) => rule.name);
@@ -0,0 +1,91 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Bump, CommitInfo, TitleComponents } from './types';
+import { ConventionalCommitValidator, createTitleParser } from './validator';
+
+/**
+ * Semver bumps from lowest to highest
+ */
+export const BUMP_LEVELS: readonly Bump[] = ['none', 'patch', 'minor', 'major'];
+
+/**
+ * Bump per type when no bump_types are configured; other types do not require a release
+ */
+export const DEFAULT_BUMP_TYPES: Readonly<Record<string, Bump>> = {
+  feat: 'minor',
+  fix: 'patch',
+  perf: 'patch',
+};
+
+/**
+ * Returns the highest of the given bumps
+ */
+export function maxBump(bumps: readonly Bump[]): Bump {
+  return bumps.reduce<Bump>(
+    (highest, bump) => (BUMP_LEVELS.indexOf(bump) > BUMP_LEVELS.indexOf(highest) ? bump : highest),
+    'none',
+  );
+}
+
+/**
+ * Returns the bump required by a parsed title: major for breaking changes, otherwise the bump of its type
+ */
+export function getBump(
+  components: TitleComponents | null | undefined,
+  bumpTypes: Readonly<Record<string, Bump>> = DEFAULT_BUMP_TYPES,
+): Bump {
+  if (!components) {
+    return 'none';
+  }
+  if (components.isBreakingChange) {
+    return 'major';
+  }
+  const type = components.type.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(bumpTypes, type) ? bumpTypes[type] : 'none';
+}
+
+/**
+ * Returns the bump required by a full commit message, counting a BREAKING CHANGE footer as major
+ */
+export function getMessageBump(
+  message: string,
+  bumpTypes: Readonly<Record<string, Bump>> = DEFAULT_BUMP_TYPES,
+  parser: ConventionalCommitValidator = createTitleParser(),
+): Bump {
+  return getBump(parser.parseMessageComponents(message), bumpTypes);
+}
+
+/**
+ * Returns the bump required by a set of changes, given as parsed titles or full messages
+ */
+export function calculateBump(
+  changes: ReadonlyArray<TitleComponents | string>,
+  bumpTypes: Readonly<Record<string, Bump>> = DEFAULT_BUMP_TYPES,
+  parser: ConventionalCommitValidator = createTitleParser(),
+): Bump {
+  return maxBump(changes.map((change) =>
+    typeof change === 'string' ? getMessageBump(change, bumpTypes, parser) : getBump(change, bumpTypes)));
+}
+
+/**
+ * Returns the bump required by a list of commits, such as the commits since the last release
+ */
+export function getCommitsBump(
+  commits: readonly CommitInfo[],
+  bumpTypes: Readonly<Record<string, Bump>> = DEFAULT_BUMP_TYPES,
+  parser: ConventionalCommitValidator = createTitleParser(),
+): Bump {
+  return calculateBump(commits.map((commit) => commit.message), bumpTypes, parser);
+}
@@ -0,0 +1,156 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { isBreakingChangeFooter, parseCommitMessage } from './message';
+import { ChangelogOptions, CommitInfo } from './types';
+import { ConventionalCommitValidator, createTitleParser } from './validator';
+
+/**
+ * Section title per type, in the order sections are rendered
+ */
+export const DEFAULT_CHANGELOG_SECTIONS: Readonly<Record<string, string>> = {
+  feat: 'Features',
+  fix: 'Bug Fixes',
+  perf: 'Performance Improvements',
+  revert: 'Reverts',
+  docs: 'Documentation',
+  style: 'Styles',
+  refactor: 'Code Refactoring',
+  test: 'Tests',
+  build: 'Build System',
+  ci: 'Continuous Integration',
+  chore: 'Chores',
+};
+
+/**
+ * Types left out of the changelog by default, unless they are breaking changes
+ */
+export const DEFAULT_HIDDEN_TYPES: readonly string[] = ['docs', 'style', 'refactor', 'test', 'build', 'ci', 'chore'];
+
+/**
+ * Title of the section that collects breaking changes of every type
+ */
+export const BREAKING_CHANGES_TITLE = '⚠ BREAKING CHANGES';
+
+/**
+ * A change listed in the changelog
+ */
+export interface ChangelogEntry {
+  type: string;
+  scope?: string;
+  description: string;
+  sha?: string;
+  breaking?: string;
+}
+
+/**
+ * Parses commits, commit messages or PR titles into changelog entries, leaving out
+ * those that are not conventional. The note of a breaking change is taken from its
+ * BREAKING CHANGE footer, or from the description when it is marked with "!".
+ */
+export function parseChangelogEntries(
+  changes: ReadonlyArray<CommitInfo | string>,
+  parser: ConventionalCommitValidator = createTitleParser(),
+): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  for (const change of changes) {
+    const { sha, message } = typeof change === 'string' ? { sha: undefined, message: change } : change;
+    const parsed = parseCommitMessage(message);
+    const components = parser.parseTitle(parsed.header);
+    if (!components) {
+      continue;
+    }
+
+    const description = components.description.trim();
+    const footer = parsed.footers.find(isBreakingChangeFooter);
+    entries.push({
+      type: components.type.toLowerCase(),
+      scope: components.scope || undefined,
+      description,
+      sha: sha || undefined,
+      breaking: footer ? footer.value.trim() : components.isBreakingChange ? description : undefined,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Formats a list item, with the short SHA when it is known
+ */
+function formatItem(text: string, sha?: string): string {
+  return sha ? `${text} (${sha.substring(0, 7)})` : text;
+}
+
+/**
+ * Renders entries as a list, with entries that share a scope nested under it.
+ * Entries without a scope come first, then scopes in alphabetical order.
+ */
+function renderList(items: { scope?: string; text: string; sha?: string }[]): string[] {
+  const lines = items.filter((item) => !item.scope).map((item) => `- ${formatItem(item.text, item.sha)}`);
+
+  const scopes = [...new Set(items.map((item) => item.scope).filter((scope): scope is string => !!scope))].sort();
+  for (const scope of scopes) {
+    lines.push(`- **${scope}:**`);
+    for (const item of items.filter((i) => i.scope === scope)) {
+      lines.push(`  - ${formatItem(item.text, item.sha)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Renders a Markdown changelog: breaking changes first, then one section per type
+ * in the order of the section titles. Types without a section title, and hidden types,
+ * are left out; breaking changes are always listed.
+ */
+export function renderChangelog(entries: readonly ChangelogEntry[], options: ChangelogOptions, title?: string): string {
+  const lines: string[] = title ? [`## ${title}`, ''] : [];
+  const sections: [string, { scope?: string; text: string; sha?: string }[]][] = [];
+
+  const breaking = entries.filter((entry) => entry.breaking !== undefined);
+  if (breaking.length > 0) {
+    sections.push([BREAKING_CHANGES_TITLE, breaking.map((entry) => ({ ...entry, text: entry.breaking ?? '' }))]);
+  }
+
+  for (const [type, sectionTitle] of Object.entries(options.sections)) {
+    if (options.hidden.includes(type)) {
+      continue;
+    }
+    const items = entries.filter((entry) => entry.type === type && entry.breaking === undefined);
+    if (items.length > 0) {
+      sections.push([sectionTitle, items.map((entry) => ({ ...entry, text: entry.description }))]);
+    }
+  }
+
+  if (sections.length === 0) {
+    lines.push('No notable changes.');
+  }
+  for (const [sectionTitle, items] of sections) {
+    lines.push(`### ${sectionTitle}`, '', ...renderList(items), '');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Generates a Markdown changelog from commits, commit messages or PR titles
+ */
+export function generateChangelog(
+  changes: ReadonlyArray<CommitInfo | string>,
+  options: ChangelogOptions,
+  title?: string,
+  parser: ConventionalCommitValidator = createTitleParser(),
+): string {
+  return renderChangelog(parseChangelogEntries(changes, parser), options, title);
+}
@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { ConfigError, InputReader, resolveOptions } from './config';
+import { generateChangelog } from './changelog';
+import { getCommitHeader, getCommitSkipReason, parseGitLog } from './commits';
+import { ConventionalCommitFixer } from './fixer';
+import { getCommitBody, stripCommentLines } from './message';
+import { toResultJSON } from './output';
+import { renderText } from './renderer';
+import { ResolvedOptions } from './types';
+import { ConventionalCommitValidator, createTitleParser } from './validator';
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  VALID: 0,
+  INVALID: 1,
+  USAGE: 2,
+} as const;
+
+/**
+ * Streams and working directory used by the CLI, injectable for tests
+ */
+export interface CliIO {
+  cwd: string;
+  stdinIsTTY: boolean;
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+/**
+ * Command line options; those shared with action.yml use the input name with "-" instead of "_"
+ */
+const CLI_OPTIONS = {
+  'strict': { type: 'string' },
+  'unicode': { type: 'string' },
+  'language': { type: 'string' },
+  'max-description-length': { type: 'string' },
+  'max-header-length': { type: 'string' },
+  'types': { type: 'string' },
+  'scopes': { type: 'string' },
+  'severity': { type: 'string' },
+  'disabled-rules': { type: 'string' },
+  'ticket-location': { type: 'string' },
+  'ticket-pattern': { type: 'string' },
+  'ticket-exempt-types': { type: 'string' },
+  'imperative-verbs': { type: 'string' },
+  'revert-reference': { type: 'string' },
+  'emoji-prefix': { type: 'string' },
+  'emoji-types': { type: 'string' },
+  'title-pattern': { type: 'string' },
+  'config-file': { type: 'string' },
+  'commitlint-config': { type: 'string' },
+  'check-body': { type: 'boolean' },
+  'skip-merge-commits': { type: 'boolean' },
+  'skip-autosquash-commits': { type: 'boolean' },
+  'edit': { type: 'string', short: 'e' },
+  'format': { type: 'string', short: 'f', default: 'text' },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+const USAGE = `Usage: pr-title-checker [options] [title]
+       pr-title-checker changelog [options] < git-log-output
+
+Validates a title or commit message against the Conventional Commits specification.
+The message is read from the title argument, from --edit, or from stdin ("-" or no title).
+
+Options:
+  -e, --edit <file>                 Read the commit message from a file (e.g. .git/COMMIT_EDITMSG)
+  -f, --format <text|json>          Output format (default: text)
+      --check-body                  Validate the body and footers along with the header
+      --skip-merge-commits          Pass merge commits without checking them (for commit-msg hooks)
+      --skip-autosquash-commits     Pass fixup!, squash! and amend! commits without checking them
+      --strict <true|false>         Enable strict mode (default: true)
+      --unicode <true|false>        Allow Unicode in the description (default: false)
+      --language <en|zh-CN>         Language of the messages (default: en)
+      --max-description-length <n>  Maximum length for the description part (default: 50)
+      --max-header-length <n>       Maximum length for the whole title (default: no limit)
+      --types <list>                Comma separated list of allowed types
+      --scopes <list>               Comma separated list of allowed scopes
+      --severity <list>             Comma separated CODE=level rule severities
+      --disabled-rules <list>       Comma separated names of built-in rules to turn off
+      --ticket-location <where>     Require a ticket reference: suffix, scope or body
+      --ticket-pattern <regex>      Format of the ticket reference (default: Jira key or #issue)
+      --ticket-exempt-types <list>  Comma separated types that need no ticket reference
+      --imperative-verbs <list>     Comma separated verbs added to the imperative mood check
+      --revert-reference <bool>     Require a reference to the reverted change in a revert body (default: false)
+      --emoji-prefix <bool>         Allow an emoji or :shortcode: before the type (default: false)
+      --emoji-types <list>          Comma separated type=emoji pairs the emoji prefix must match
+      --title-pattern <regex>       Custom title grammar with named groups (default: Conventional Commits)
+      --config-file <path>          Config file path (default: .github/pr-title-checker.yml)
+      --commitlint-config <path>    commitlint config path, or false (default: found in the directory)
+  -h, --help                        Show this help
+
+Run "pr-title-checker changelog --help" for the changelog options.
+
+Exit codes: 0 valid, 1 invalid, 2 usage or configuration error
+`;
+
+/**
+ * Options of the changelog command
+ */
+const CHANGELOG_OPTIONS = {
+  'sections': { type: 'string' },
+  'hidden-types': { type: 'string' },
+  'title': { type: 'string' },
+  'config-file': { type: 'string' },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+const CHANGELOG_USAGE = `Usage: git log <range> | pr-title-checker changelog [options]
+
+Generates a Markdown changelog from \`git log\` output (default format, --oneline or
+--format=%s) read from stdin. Changes that are not conventional are left out.
+
+Options:
+      --sections <list>       Comma separated type=title entries, in section order
+      --hidden-types <list>   Comma separated types left out unless breaking
+      --title <text>          Heading above the sections, such as the version
+      --config-file <path>    Config file path (default: .github/pr-title-checker.yml)
+  -h, --help                  Show this help
+`;
+
+/**
+ * Runs the changelog command and returns its exit code
+ */
+async function runChangelog(args: string[], io: CliIO): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: CHANGELOG_OPTIONS });
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${CHANGELOG_USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+  const { values } = parsed;
+
+  if (values.help) {
+    io.stdout(CHANGELOG_USAGE);
+    return EXIT_CODES.VALID;
+  }
+  if (io.stdinIsTTY) {
+    io.stderr(`No git log output on stdin\n\n${CHANGELOG_USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  // Section options are resolved like the config file options of the same name
+  const inputs: Record<string, string | undefined> = {
+    changelog_sections: values.sections,
+    changelog_hidden_types: values['hidden-types'],
+    config_file: values['config-file'],
+  };
+
+  let options: ResolvedOptions;
+  try {
+    options = resolveOptions((name) => inputs[name] ?? '', io.cwd);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      io.stderr(`${error.message}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    throw error;
+  }
+
+  const commits = parseGitLog(await io.readStdin());
+  io.stdout(`${generateChangelog(commits, options.changelog, values.title, createTitleParser(options))}\n`);
+  return EXIT_CODES.VALID;
+}
+
+/**
+ * Runs the CLI and returns its exit code
+ */
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  if (args[0] === 'changelog') {
+    return runChangelog(args.slice(1), io);
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: CLI_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.VALID;
+  }
+
+  if (values.format !== 'text' && values.format !== 'json') {
+    io.stderr(`Unknown format "${values.format}", expected text or json\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  // Options are resolved exactly like the action inputs
+  const readInput: InputReader = (name) => {
+    const value = values[name.replace(/_/g, '-') as keyof typeof values];
+    return typeof value === 'string' ? value : '';
+  };
+
+  let options: ResolvedOptions;
+  let validator: ConventionalCommitValidator;
+  let fixer: ConventionalCommitFixer;
+  try {
+    options = resolveOptions(readInput, io.cwd);
+    validator = new ConventionalCommitValidator(options);
+    fixer = new ConventionalCommitFixer(options);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      io.stderr(`${error.message}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    throw error;
+  }
+
+  options.configWarnings?.forEach((warning) => io.stderr(`Warning: ${warning}\n`));
+
+  // Read the message from the file, the arguments or stdin
+  let message: string;
+  if (values.edit) {
+    const filePath = path.resolve(io.cwd, values.edit);
+    if (!fs.existsSync(filePath)) {
+      io.stderr(`Unable to read commit message file: ${filePath}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    message = stripCommentLines(fs.readFileSync(filePath, 'utf8'));
+  } else if (positionals.length > 0 && positionals[0] !== '-') {
+    message = positionals.join(' ');
+  } else if (!io.stdinIsTTY || positionals[0] === '-') {
+    message = (await io.readStdin()).replace(/\s+$/, '');
+  } else {
+    io.stderr(`No title given\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const header = getCommitHeader(message);
+
+  // Merge and autosquash commits are left out like in the commit check of the action
+  const skipped = getCommitSkipReason({ sha: '', message }, {
+    skipMergeCommits: values['skip-merge-commits'],
+    skipAutosquashCommits: values['skip-autosquash-commits'],
+  });
+  if (skipped) {
+    if (values.format === 'json') {
+      io.stdout(`${JSON.stringify({ valid: true, skipped }, null, 2)}\n`);
+    } else {
+      io.stdout(`Check skipped: ${skipped} "${header}"\n`);
+    }
+    return EXIT_CODES.VALID;
+  }
+
+  const body = getCommitBody(message);
+  const result = values['check-body'] ? validator.validateMessage(message) : validator.validate(header, body);
+  const fix = fixer.fix(header, result, body);
+  const exitCode = result.isValid ? EXIT_CODES.VALID : EXIT_CODES.INVALID;
+
+  if (values.format === 'json') {
+    io.stdout(`${JSON.stringify(toResultJSON(result, fix), null, 2)}\n`);
+    return exitCode;
+  }
+
+  const text = renderText({ title: header, result, fix, options });
+  if (!result.isValid) {
+    io.stderr(`${text}\n`);
+  } else {
+    io.stdout(`${text}\n`);
+  }
+  return exitCode;
+}
+
+if (require.main === module) {
+  const io: CliIO = {
+    cwd: process.cwd(),
+    stdinIsTTY: Boolean(process.stdin.isTTY),
+    readStdin: async () => fs.readFileSync(process.stdin.fd, 'utf8'),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  };
+
+  runCli(process.argv.slice(2), io).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      process.stderr.write(`Unexpected error: ${error instanceof Error ? error.message : String(error)}\n`);
+      process.exitCode = EXIT_CODES.USAGE;
+    },
+  );
+}
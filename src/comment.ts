@@ -0,0 +1,62 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PullRequestClient } from './github';
+import { renderMarkdown, RenderInput } from './renderer';
+
+/**
+ * Hidden marker used to find the comment posted by this action
+ */
+export const COMMENT_MARKER = '<!-- pr-title-checker -->';
+
+/**
+ * What happened to the sticky comment
+ */
+export type CommentAction = 'created' | 'updated' | 'deleted' | 'unchanged';
+
+/**
+ * Builds the Markdown body of the comment for a failed validation
+ */
+export function buildComment(input: RenderInput): string {
+  return `${COMMENT_MARKER}\n${renderMarkdown(input)}`;
+}
+
+/**
+ * Creates or updates the sticky comment, or deletes it when there is nothing to report.
+ * Only a comment of the token's user is the sticky comment, so a pasted marker is left alone.
+ */
+export async function syncComment(client: PullRequestClient, body?: string): Promise<CommentAction> {
+  const login = (await client.getLogin()).toLowerCase();
+  const comments = await client.listComments();
+  const existing = comments.find((comment) =>
+    comment.author.toLowerCase() === login && comment.body.includes(COMMENT_MARKER));
+
+  if (body === undefined) {
+    if (!existing) {
+      return 'unchanged';
+    }
+    await client.deleteComment(existing.id);
+    return 'deleted';
+  }
+
+  if (!existing) {
+    await client.createComment(body);
+    return 'created';
+  }
+  if (existing.body === body) {
+    return 'unchanged';
+  }
+  await client.updateComment(existing.id, body);
+  return 'updated';
+}
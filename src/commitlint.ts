@@ -0,0 +1,185 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ConfigFile, ErrorCode, Severity } from './types';
+
+/**
+ * Files searched for a commitlint configuration, in the order commitlint uses.
+ * package.json is only used when it has a "commitlint" key.
+ */
+export const COMMITLINT_CONFIG_FILES: readonly string[] = [
+  'package.json',
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+];
+
+/**
+ * The parts of a commitlint configuration that are read
+ */
+export interface CommitlintConfig {
+  extends?: string | string[];
+  rules?: Record<string, unknown>;
+}
+
+/**
+ * Options taken from a commitlint configuration: config file options, severities
+ * from the rule levels, and a warning for each rule that is not enforced
+ */
+export interface CommitlintOptions {
+  config: ConfigFile;
+  severity: Partial<Record<ErrorCode, Severity>>;
+  warnings: string[];
+}
+
+/**
+ * How a commitlint rule maps onto a checker rule: the error code it reports, whether the
+ * applicability and value are what the checker enforces, and the options they set.
+ * A rule without a code is always enforced and cannot be disabled.
+ */
+interface RuleMapping {
+  code?: ErrorCode;
+  supports(applicability: string, value: unknown): boolean;
+  options?(value: unknown): ConfigFile;
+}
+
+/**
+ * Severity of each commitlint level: 0 disables the rule, 1 warns and 2 fails
+ */
+const LEVELS: readonly Severity[] = ['off', 'warning', 'error'];
+
+/**
+ * Cases a description that starts with a lowercase letter never has
+ */
+const NOT_LOWERCASE_CASES = ['sentence-case', 'start-case', 'pascal-case', 'upper-case'];
+
+/**
+ * Returns a commitlint rule value as a list
+ */
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Checks for a case rule that only allows lowercase
+ */
+function isLowerCase(applicability: string, value: unknown): boolean {
+  const cases = asList(value);
+  return applicability === 'always'
+    ? cases.length === 1 && cases[0] === 'lower-case'
+    : cases.includes('upper-case');
+}
+
+/**
+ * Checks for a positive length limit
+ */
+function isMaxLength(applicability: string, value: unknown): boolean {
+  return applicability === 'always' && Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Supported commitlint rules
+ */
+const RULE_MAPPINGS: Readonly<Record<string, RuleMapping>> = {
+  'type-enum': {
+    code: 'INVALID_TYPE',
+    supports: (applicability, value) => applicability === 'always' && Array.isArray(value) && value.length > 0,
+    options: (value) => ({ types: value as string[] }),
+  },
+  'type-case': { code: 'TYPE_NOT_LOWERCASE', supports: isLowerCase },
+  // A type is always required by the format
+  'type-empty': { supports: (applicability) => applicability === 'never' },
+  'scope-enum': {
+    code: 'INVALID_SCOPE',
+    supports: (applicability, value) => applicability === 'always' && Array.isArray(value),
+    // An empty list allows any scope
+    options: (value) => ((value as string[]).length > 0 ? { scopes: value as string[] } : {}),
+  },
+  'scope-case': { code: 'SCOPE_NOT_LOWERCASE', supports: isLowerCase },
+  'subject-case': {
+    code: 'DESCRIPTION_NOT_LOWERCASE',
+    supports: (applicability, value) => (applicability === 'never'
+      ? asList(value).some((item) => NOT_LOWERCASE_CASES.includes(item as string))
+      : isLowerCase(applicability, value)),
+  },
+  'subject-empty': { code: 'MISSING_DESCRIPTION', supports: (applicability) => applicability === 'never' },
+  'subject-full-stop': {
+    code: 'DESCRIPTION_ENDS_WITH_PERIOD',
+    supports: (applicability, value) => applicability === 'never' && (value === undefined || value === '.'),
+  },
+  'subject-max-length': {
+    code: 'DESCRIPTION_TOO_LONG',
+    supports: isMaxLength,
+    options: (value) => ({ max_description_length: value as number }),
+  },
+  'header-max-length': {
+    code: 'HEADER_TOO_LONG',
+    supports: isMaxLength,
+    options: (value) => ({ max_header_length: value as number }),
+  },
+};
+
+/**
+ * Maps commitlint rules onto the checker options. Each rule is a
+ * [level, applicability, value] array; rules the checker cannot enforce, and
+ * shared configurations named in "extends", are reported as warnings.
+ */
+export function mapCommitlintConfig(config: CommitlintConfig, source: string): CommitlintOptions {
+  const options: CommitlintOptions = { config: {}, severity: {}, warnings: [] };
+
+  if (config.extends !== undefined && asList(config.extends).length > 0) {
+    options.warnings.push(
+      `${source}: extends (${asList(config.extends).join(', ')}) is not resolved, only the rules of this file are used`,
+    );
+  }
+
+  for (const [name, entry] of Object.entries(config.rules ?? {})) {
+    if (!Array.isArray(entry) || ![0, 1, 2].includes(entry[0])) {
+      options.warnings.push(`${source}: rule "${name}" must be a [level, applicability, value] array and is ignored`);
+      continue;
+    }
+    const [level, applicability = 'always', value] = entry as [number, string?, unknown?];
+    const mapping = Object.prototype.hasOwnProperty.call(RULE_MAPPINGS, name) ? RULE_MAPPINGS[name] : undefined;
+    if (!mapping) {
+      options.warnings.push(`${source}: rule "${name}" is not supported and is ignored`);
+      continue;
+    }
+
+    // A disabled rule turns off the matching check, whatever its value
+    if (level === 0) {
+      if (mapping.code) {
+        options.severity[mapping.code] = 'off';
+      } else {
+        options.warnings.push(`${source}: rule "${name}" is always enforced and cannot be disabled`);
+      }
+      continue;
+    }
+    if (!mapping.supports(applicability, value)) {
+      const setting = value === undefined ? applicability : `${applicability} ${JSON.stringify(value)}`;
+      options.warnings.push(`${source}: rule "${name}" is not supported with "${setting}" and is ignored`);
+      continue;
+    }
+    if (mapping.code) {
+      options.severity[mapping.code] = LEVELS[level];
+    }
+    Object.assign(options.config, mapping.options?.(value));
+  }
+
+  return options;
+}
@@ -0,0 +1,126 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getCommitBody } from './message';
+import { CommitInfo, CommitResult } from './types';
+import { ConventionalCommitValidator } from './validator';
+
+/**
+ * How commits are validated, and which commits are left out
+ */
+export interface CommitCheckOptions {
+  checkBody?: boolean;
+  skipMergeCommits?: boolean;
+  skipAutosquashCommits?: boolean;
+}
+
+/**
+ * Returns the first line of a commit message
+ */
+export function getCommitHeader(message: string): string {
+  return message.split('\n')[0].replace(/\r$/, '');
+}
+
+/**
+ * Parses `git log` output into commits. Accepts the default format (a `commit <sha>` line,
+ * headers and the message indented by four spaces), `--oneline`, or one subject per line
+ * such as `--format=%s`, in which case the SHA is empty.
+ */
+export function parseGitLog(log: string): CommitInfo[] {
+  const lines = log.replace(/\r\n?/g, '\n').split('\n');
+  const commits: CommitInfo[] = [];
+
+  if (!/^commit [0-9a-f]{7,}/.test(lines[0] ?? '')) {
+    for (const line of lines.filter((l) => l.trim().length > 0)) {
+      const oneline = line.match(/^([0-9a-f]{7,40}) (.*)$/);
+      commits.push(oneline ? { sha: oneline[1], message: oneline[2] } : { sha: '', message: line.trim() });
+    }
+    return commits;
+  }
+
+  let current: { sha: string; lines: string[]; parentCount?: number } | undefined;
+  const flush = () => {
+    if (current) {
+      commits.push({ sha: current.sha, message: current.lines.join('\n').trim(), parentCount: current.parentCount });
+    }
+  };
+  for (const line of lines) {
+    const start = line.match(/^commit ([0-9a-f]{7,})/);
+    if (start) {
+      flush();
+      current = { sha: start[1], lines: [] };
+    } else if (current && line.startsWith('    ')) {
+      current.lines.push(line.substring(4));
+    } else if (current && line.trim() === '' && current.lines.length > 0) {
+      current.lines.push('');
+    } else if (current && current.lines.length === 0 && line.startsWith('Merge: ')) {
+      current.parentCount = line.substring('Merge: '.length).trim().split(/\s+/).length;
+    }
+  }
+  flush();
+  return commits;
+}
+
+/**
+ * Detects merge commits by their parents, or by the header git generates when parents are unknown
+ */
+export function isMergeCommit(commit: CommitInfo): boolean {
+  if (commit.parentCount !== undefined) {
+    return commit.parentCount > 1;
+  }
+  return /^Merge (pull request|branch|branches|remote-tracking branch|tag|commit) /.test(getCommitHeader(commit.message));
+}
+
+/**
+ * Detects commits created by `git commit --fixup` or `--squash`
+ */
+export function isAutosquashCommit(commit: CommitInfo): boolean {
+  return /^(fixup|squash|amend)! /.test(getCommitHeader(commit.message));
+}
+
+/**
+ * Returns why a commit is left out of the check, or undefined when it is checked
+ */
+export function getCommitSkipReason(commit: CommitInfo, options: CommitCheckOptions = {}): string | undefined {
+  if (options.skipMergeCommits && isMergeCommit(commit)) {
+    return 'merge commit';
+  }
+  if (options.skipAutosquashCommits && isAutosquashCommit(commit)) {
+    return 'fixup or squash commit';
+  }
+  return undefined;
+}
+
+/**
+ * Validates the header (or full message) of every commit, reporting the result per commit SHA
+ */
+export function validateCommits(
+  validator: ConventionalCommitValidator,
+  commits: CommitInfo[],
+  options: CommitCheckOptions = {},
+): CommitResult[] {
+  return commits.map((commit) => {
+    const header = getCommitHeader(commit.message);
+
+    const skipped = getCommitSkipReason(commit, options);
+    if (skipped) {
+      return { sha: commit.sha, header, skipped };
+    }
+
+    const result = options.checkBody
+      ? validator.validateMessage(commit.message)
+      : validator.validate(header, getCommitBody(commit.message));
+    return { sha: commit.sha, header, result };
+  });
+}
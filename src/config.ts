@@ -0,0 +1,586 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ALLOWED_TYPES, ERROR_CODES, MAX_DESCRIPTION_LENGTH, TICKET_PATTERN, TITLE_PATTERN_GROUPS } from './rules';
+import { BUILTIN_RULE_NAMES } from './builtins';
+import { BUMP_LEVELS, DEFAULT_BUMP_TYPES } from './bump';
+import { DEFAULT_CHANGELOG_SECTIONS, DEFAULT_HIDDEN_TYPES } from './changelog';
+import { DEFAULT_BREAKING_LABEL, DEFAULT_TYPE_LABELS, SCOPE_PLACEHOLDER } from './labels';
+import { parseEmojiPrefix } from './emoji';
+import { COMMITLINT_CONFIG_FILES, CommitlintConfig, CommitlintOptions, mapCommitlintConfig } from './commitlint';
+import { LANGUAGES } from './i18n';
+import {
+  Bump,
+  ChangelogOptions,
+  ConfigFile,
+  ErrorCode,
+  LabelRules,
+  Language,
+  ResolvedOptions,
+  Severity,
+  SkipRules,
+  TicketOptions,
+} from './types';
+
+/**
+ * Default location of the repository config file, relative to the workspace
+ */
+export const DEFAULT_CONFIG_FILE = '.github/pr-title-checker.yml';
+
+/**
+ * Reads a raw input by its action.yml name, returning an empty string when unset
+ */
+export type InputReader = (name: string) => string;
+
+/**
+ * Error raised when an input or the config file holds an invalid value
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Splits a comma or newline separated list, or checks a YAML sequence
+ */
+export function parseList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  let items: unknown[];
+  if (typeof value === 'string') {
+    items = value.split(/[,\n]/);
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    throw new ConfigError(`${name} must be a list or a comma-separated string`);
+  }
+
+  const list: string[] = [];
+  for (const item of items) {
+    if (typeof item !== 'string') {
+      throw new ConfigError(`${name} must only contain strings`);
+    }
+    const trimmed = item.trim();
+    if (trimmed.length > 0) {
+      list.push(trimmed);
+    }
+  }
+
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Reads `key=value` entries, or a YAML mapping, as key and value pairs
+ */
+function parseEntries(value: unknown, name: string, format: string): [string, unknown][] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value);
+  }
+  return (parseList(value, name) ?? []).map((item) => {
+    const separator = item.indexOf('=');
+    if (separator === -1) {
+      throw new ConfigError(`${name} entries must look like ${format}, got "${item}"`);
+    }
+    return [item.substring(0, separator).trim(), item.substring(separator + 1).trim()];
+  });
+}
+
+/**
+ * Parses rule severities from `CODE=level` entries or a YAML mapping of code to level
+ */
+export function parseSeverities(value: unknown, name: string): Partial<Record<ErrorCode, Severity>> {
+  const severities: Partial<Record<ErrorCode, Severity>> = {};
+  for (const [rawCode, rawLevel] of parseEntries(value, name, 'CODE=level')) {
+    const code = rawCode.toUpperCase();
+    if (!(code in ERROR_CODES)) {
+      throw new ConfigError(`${name} refers to unknown error code "${rawCode}"`);
+    }
+    const level = String(rawLevel).toLowerCase();
+    if (level !== 'error' && level !== 'warning' && level !== 'off') {
+      throw new ConfigError(`${name} for ${code} must be one of: error, warning, off`);
+    }
+    severities[code as ErrorCode] = level;
+  }
+
+  return severities;
+}
+
+/**
+ * Parses a name per type, such as a label or a section title, from `type=name` entries
+ * or a YAML mapping of type to name
+ */
+export function parseTypeNames(value: unknown, name: string, format: string): Record<string, string> | undefined {
+  const entries = parseEntries(value, name, format);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const names: Record<string, string> = {};
+  for (const [type, typeName] of entries) {
+    if (typeof typeName !== 'string' || typeName.trim().length === 0) {
+      throw new ConfigError(`${name} for ${type} must not be empty`);
+    }
+    names[type] = typeName.trim();
+  }
+  return names;
+}
+
+/**
+ * Parses the semver bump per type from `type=bump` entries or a YAML mapping of type to bump
+ */
+export function parseBumpTypes(value: unknown, name: string): Record<string, Bump> | undefined {
+  const entries = parseEntries(value, name, 'type=bump');
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const bumpTypes: Record<string, Bump> = {};
+  for (const [type, rawBump] of entries) {
+    const bump = String(rawBump).toLowerCase();
+    if (!BUMP_LEVELS.includes(bump as Bump)) {
+      throw new ConfigError(`${name} for ${type} must be one of: ${BUMP_LEVELS.join(', ')}`);
+    }
+    bumpTypes[type.toLowerCase()] = bump as Bump;
+  }
+  return bumpTypes;
+}
+
+/**
+ * Parses path globs per scope from newline separated `scope=glob` entries, or a YAML
+ * mapping of scope to one or more globs. Repeating a scope adds globs to it.
+ */
+export function parseScopePaths(value: unknown, name: string): Record<string, string[]> | undefined {
+  const entries = typeof value === 'string'
+    ? parseEntries(value.split('\n'), name, 'scope=glob')
+    : parseEntries(value, name, 'scope=glob');
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const scopePaths: Record<string, string[]> = {};
+  for (const [scope, globs] of entries) {
+    if (!/^[a-z0-9_-]+$/.test(scope)) {
+      throw new ConfigError(`${name} scopes must only contain lowercase letters, numbers, hyphens and underscores, got "${scope}"`);
+    }
+    // Globs are not split on commas, since braces such as {a,b} contain them
+    const list = parseList(typeof globs === 'string' ? [globs] : globs, name);
+    if (!list) {
+      throw new ConfigError(`${name} for ${scope} must list at least one glob`);
+    }
+    scopePaths[scope] = [...(scopePaths[scope] ?? []), ...list];
+  }
+  return scopePaths;
+}
+
+/**
+ * Parses the allowed emoji per type from `type=emoji` entries, or a YAML mapping of type
+ * to one or more emoji. Repeating a type adds emoji to it.
+ */
+export function parseEmojiTypes(value: unknown, name: string): Record<string, string[]> | undefined {
+  const entries = parseEntries(value, name, 'type=emoji');
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const emojiTypes: Record<string, string[]> = {};
+  for (const [type, emojis] of entries) {
+    if (!/^[a-z]+$/.test(type)) {
+      throw new ConfigError(`${name} types must only contain lowercase letters, got "${type}"`);
+    }
+    const list = parseList(emojis, name);
+    if (!list) {
+      throw new ConfigError(`${name} for ${type} must list at least one emoji`);
+    }
+    const invalid = list.find((emoji) => parseEmojiPrefix(emoji)?.length !== emoji.length);
+    if (invalid !== undefined) {
+      throw new ConfigError(`${name} for ${type} must be an emoji or a :shortcode:, got "${invalid}"`);
+    }
+    emojiTypes[type] = [...(emojiTypes[type] ?? []), ...list];
+  }
+  return emojiTypes;
+}
+
+/**
+ * Compiles title patterns, reporting the first invalid regular expression.
+ * Patterns are separated by newlines only, since a regular expression may contain commas.
+ */
+export function parsePatterns(value: unknown, name: string): RegExp[] {
+  const items = typeof value === 'string' ? value.split('\n') : value;
+  return (parseList(items, name) ?? []).map((pattern) => {
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ConfigError(`${name} contains an invalid pattern "${pattern}": ${reason}`);
+    }
+  });
+}
+
+/**
+ * Compiles a custom title pattern. Its named groups must be components of a title, and
+ * the description must be one of them.
+ */
+export function parseTitlePattern(value: unknown, name: string): RegExp | undefined {
+  const [pattern] = parsePatterns(value === undefined ? [] : [String(value)], name);
+  if (!pattern) {
+    return undefined;
+  }
+  const groups = [...pattern.source.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map((match) => match[1]);
+  const unknownGroup = groups.find((group) => !TITLE_PATTERN_GROUPS.includes(group));
+  if (unknownGroup !== undefined) {
+    throw new ConfigError(`${name} has an unknown group "${unknownGroup}", expected: ${TITLE_PATTERN_GROUPS.join(', ')}`);
+  }
+  if (!groups.includes('description')) {
+    throw new ConfigError(`${name} must capture the description in a (?<description>...) group`);
+  }
+  return pattern;
+}
+
+/**
+ * Resolves a boolean that can be set by an input or the config file
+ */
+function resolveFlag(input: string, fileValue: unknown): boolean {
+  return input ? input === 'true' : String(fileValue ?? false) === 'true';
+}
+
+/**
+ * Resolves the skip rules; like the other lists, an input replaces the config file list
+ */
+function resolveSkipRules(readInput: InputReader, file: ConfigFile): SkipRules {
+  const list = (name: 'ignore_authors' | 'ignore_labels') =>
+    parseList(readInput(name), name) ?? parseList(file[name], name) ?? [];
+
+  return {
+    authors: list('ignore_authors'),
+    bots: resolveFlag(readInput('ignore_bots'), file.ignore_bots),
+    labels: list('ignore_labels'),
+    drafts: resolveFlag(readInput('ignore_drafts'), file.ignore_drafts),
+    patterns: readInput('ignore_patterns')
+      ? parsePatterns(readInput('ignore_patterns'), 'ignore_patterns')
+      : parsePatterns(file.ignore_patterns, 'ignore_patterns'),
+  };
+}
+
+/**
+ * Resolves the labels applied from the parsed title
+ */
+function resolveLabelRules(readInput: InputReader, file: ConfigFile): LabelRules {
+  const scope = readInput('scope_label') || file.scope_label || '';
+  if (scope && !scope.includes(SCOPE_PLACEHOLDER)) {
+    throw new ConfigError(`scope_label must contain ${SCOPE_PLACEHOLDER}, got "${scope}"`);
+  }
+  // Scope labels are told apart from other labels by the text around the placeholder
+  if (scope.trim() === SCOPE_PLACEHOLDER) {
+    throw new ConfigError(`scope_label must contain text besides ${SCOPE_PLACEHOLDER}, such as area/${SCOPE_PLACEHOLDER}`);
+  }
+
+  return {
+    enabled: resolveFlag(readInput('auto_label'), file.auto_label),
+    types: parseTypeNames(readInput('type_labels'), 'type_labels', 'type=label')
+      ?? parseTypeNames(file.type_labels, 'type_labels', 'type=label')
+      ?? DEFAULT_TYPE_LABELS,
+    breaking: readInput('breaking_label') || (file.breaking_label ?? DEFAULT_BREAKING_LABEL),
+    scope,
+  };
+}
+
+/**
+ * Resolves the sections of the generated changelog
+ */
+function resolveChangelogOptions(readInput: InputReader, file: ConfigFile): ChangelogOptions {
+  const sectionsInput = readInput('changelog_sections');
+  const hiddenInput = readInput('changelog_hidden_types');
+  return {
+    sections: parseTypeNames(sectionsInput, 'changelog_sections', 'type=title')
+      ?? parseTypeNames(file.changelog_sections, 'changelog_sections', 'type=title')
+      ?? DEFAULT_CHANGELOG_SECTIONS,
+    // An empty list in the config file shows every type
+    hidden: hiddenInput
+      ? parseList(hiddenInput, 'changelog_hidden_types') ?? []
+      : file.changelog_hidden_types !== undefined
+        ? parseList(file.changelog_hidden_types, 'changelog_hidden_types') ?? []
+        : DEFAULT_HIDDEN_TYPES,
+  };
+}
+
+/**
+ * Resolves the ticket reference requirement, which is off unless a location is set
+ */
+function resolveTicketOptions(readInput: InputReader, file: ConfigFile): TicketOptions | undefined {
+  const location = readInput('ticket_location') || file.ticket_location;
+  if (!location) {
+    return undefined;
+  }
+  if (location !== 'suffix' && location !== 'scope' && location !== 'body') {
+    throw new ConfigError(`ticket_location must be one of: suffix, scope, body, got "${location}"`);
+  }
+
+  const source = readInput('ticket_pattern') || file.ticket_pattern;
+  let pattern = TICKET_PATTERN;
+  if (source) {
+    [pattern] = parsePatterns([source], 'ticket_pattern');
+  }
+
+  return {
+    location,
+    pattern,
+    exemptTypes: parseList(readInput('ticket_exempt_types'), 'ticket_exempt_types')
+      ?? parseList(file.ticket_exempt_types, 'ticket_exempt_types')
+      ?? [],
+  };
+}
+
+/**
+ * Loads the config file, returning undefined when it does not exist
+ */
+export function loadConfigFile(filePath: string): ConfigFile | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Unable to parse ${filePath}: ${reason}`);
+  }
+
+  // An empty file is a valid (empty) config
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`${filePath} must contain a mapping of options`);
+  }
+
+  return parsed as ConfigFile;
+}
+
+/**
+ * Loads a commitlint configuration, returning undefined for a package.json without one.
+ * JavaScript configurations must be CommonJS modules.
+ */
+export function loadCommitlintConfig(filePath: string): CommitlintConfig | undefined {
+  let parsed: unknown;
+  try {
+    if (/\.c?js$/.test(filePath)) {
+      parsed = createRequire(filePath)(filePath);
+    } else {
+      parsed = parseYaml(fs.readFileSync(filePath, 'utf8'));
+      if (path.basename(filePath) === 'package.json') {
+        parsed = (parsed as { commitlint?: unknown } | null)?.commitlint;
+        if (parsed === undefined) {
+          return undefined;
+        }
+      }
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Unable to load ${filePath}: ${reason}`);
+  }
+
+  // A module compiled from ESM exports the configuration as default
+  if (parsed !== null && typeof parsed === 'object' && 'default' in parsed) {
+    parsed = (parsed as { default: unknown }).default;
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`${filePath} must contain a commitlint configuration object`);
+  }
+  return parsed as CommitlintConfig;
+}
+
+/**
+ * Resolves the options taken from the commitlint configuration: the file given by
+ * commitlint_config, or the first one found in the workspace. "false" turns it off.
+ * A file found in the workspace never fails the check: a JavaScript config is only run
+ * when the commitlint_config input names it, and a file that cannot be loaded is ignored with a warning.
+ * The config file is part of the checked out code, so it cannot name a JavaScript config either.
+ */
+function resolveCommitlintOptions(readInput: InputReader, file: ConfigFile, workspace: string): CommitlintOptions {
+  const input = readInput('commitlint_config');
+  const setting = input || file.commitlint_config;
+  if (setting === 'false') {
+    return { config: {}, severity: {}, warnings: [] };
+  }
+
+  let filePath: string | undefined;
+  let config: CommitlintConfig | undefined;
+  if (setting) {
+    if (!input && /\.c?js$/.test(setting)) {
+      throw new ConfigError(
+        `commitlint_config in the config file cannot name a JavaScript config (${setting}); use the commitlint_config input instead`,
+      );
+    }
+    filePath = path.resolve(workspace, setting);
+    if (!fs.existsSync(filePath)) {
+      throw new ConfigError(`commitlint_config file not found: ${filePath}`);
+    }
+    config = loadCommitlintConfig(filePath);
+    if (!config) {
+      throw new ConfigError(`${filePath} has no commitlint configuration`);
+    }
+  } else {
+    for (const name of COMMITLINT_CONFIG_FILES) {
+      filePath = path.join(workspace, name);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+      if (/\.c?js$/.test(name)) {
+        return {
+          config: {},
+          severity: {},
+          warnings: [`${name} is not loaded since it would run code; set the commitlint_config input to ${name} to use it`],
+        };
+      }
+      try {
+        config = loadCommitlintConfig(filePath);
+      } catch (error) {
+        if (!(error instanceof ConfigError)) {
+          throw error;
+        }
+        return { config: {}, severity: {}, warnings: [`${name} is ignored: ${error.message}`] };
+      }
+      if (config) {
+        break;
+      }
+    }
+  }
+
+  return config && filePath
+    ? mapCommitlintConfig(config, path.relative(workspace, filePath))
+    : { config: {}, severity: {}, warnings: [] };
+}
+
+/**
+ * Resolves validator options from action inputs, the config file and the commitlint configuration.
+ * Inputs take precedence over the config file, which takes precedence over the commitlint
+ * configuration, which takes precedence over defaults.
+ */
+export function resolveOptions(readInput: InputReader, workspace: string): ResolvedOptions {
+  const configPath = path.resolve(workspace, readInput('config_file') || DEFAULT_CONFIG_FILE);
+  const ownFile = loadConfigFile(configPath) ?? {};
+  const commitlint = resolveCommitlintOptions(readInput, ownFile, workspace);
+  const file: ConfigFile = { ...commitlint.config, ...ownFile };
+
+  // Strict mode (default: true)
+  const strictInput = readInput('strict');
+  const strict = strictInput ? strictInput !== 'false' : String(file.strict ?? true) !== 'false';
+
+  // Unicode descriptions (default: false)
+  const unicode = resolveFlag(readInput('unicode'), file.unicode);
+
+  // Language of the messages (default: en)
+  const language = readInput('language') || file.language || 'en';
+  if (!LANGUAGES.includes(language as Language)) {
+    throw new ConfigError(`language must be one of: ${LANGUAGES.join(', ')}, got "${language}"`);
+  }
+
+  // Max description length (default: 50)
+  const maxLengthInput = readInput('max_description_length') || file.max_description_length;
+  const maxDescriptionLength =
+    maxLengthInput !== undefined ? parseInt(String(maxLengthInput), 10) : MAX_DESCRIPTION_LENGTH;
+  if (isNaN(maxDescriptionLength) || maxDescriptionLength <= 0) {
+    throw new ConfigError('max_description_length must be a positive number');
+  }
+
+  // Max title length (default: no limit)
+  const maxHeaderInput = readInput('max_header_length') || file.max_header_length;
+  const maxHeaderLength = maxHeaderInput !== undefined ? parseInt(String(maxHeaderInput), 10) : undefined;
+  if (maxHeaderLength !== undefined && (isNaN(maxHeaderLength) || maxHeaderLength <= 0)) {
+    throw new ConfigError('max_header_length must be a positive number');
+  }
+
+  // Allowed types (default: Conventional Commits types)
+  const allowedTypes = parseList(readInput('types'), 'types') ?? parseList(file.types, 'types') ?? ALLOWED_TYPES;
+  const invalidType = allowedTypes.find((type) => !/^[a-z]+$/.test(type));
+  if (invalidType !== undefined) {
+    throw new ConfigError(`types must only contain lowercase letters, got "${invalidType}"`);
+  }
+
+  // Allowed scopes (default: any scope matching the scope format), lowercased since
+  // the scope of a title is compared in lowercase
+  const scopeList = parseList(readInput('scopes'), 'scopes') ?? parseList(file.scopes, 'scopes');
+  const invalidScope = scopeList?.find((scope) => !/^[a-zA-Z0-9_-]+$/.test(scope));
+  if (invalidScope !== undefined) {
+    throw new ConfigError(`scopes must only contain letters, numbers, hyphens and underscores, got "${invalidScope}"`);
+  }
+  const allowedScopes = scopeList?.map((scope) => scope.toLowerCase());
+
+  // Built-in rules turned off by name
+  const disabledRules = parseList(readInput('disabled_rules'), 'disabled_rules')
+    ?? parseList(file.disabled_rules, 'disabled_rules');
+  const unknownRule = disabledRules?.find((name) => !BUILTIN_RULE_NAMES.includes(name));
+  if (unknownRule !== undefined) {
+    throw new ConfigError(`disabled_rules refers to unknown rule "${unknownRule}"`);
+  }
+
+  // Verbs added to the bundled list of the imperative mood check
+  const imperativeVerbs = parseList(readInput('imperative_verbs'), 'imperative_verbs')
+    ?? parseList(file.imperative_verbs, 'imperative_verbs');
+  const invalidVerb = imperativeVerbs?.find((verb) => !/^[a-z]+$/.test(verb));
+  if (invalidVerb !== undefined) {
+    throw new ConfigError(`imperative_verbs must only contain lowercase letters, got "${invalidVerb}"`);
+  }
+
+  // Require the body of a revert to reference the reverted change (default: false)
+  const revertReference = resolveFlag(readInput('revert_reference'), file.revert_reference);
+
+  // Allow an emoji or :shortcode: before the type (default: false)
+  const emojiPrefix = resolveFlag(readInput('emoji_prefix'), file.emoji_prefix);
+
+  // Rule severities (inputs override the config file, which overrides commitlint rule levels, per code)
+  const severity = {
+    ...commitlint.severity,
+    ...parseSeverities(file.severity, 'severity'),
+    ...parseSeverities(readInput('severity'), 'severity'),
+  };
+
+  return {
+    strict,
+    unicode,
+    language: language as Language,
+    maxDescriptionLength,
+    maxHeaderLength,
+    allowedTypes,
+    allowedScopes,
+    ticket: resolveTicketOptions(readInput, file),
+    imperativeVerbs,
+    revertReference,
+    emojiPrefix,
+    titlePattern: parseTitlePattern(readInput('title_pattern') || file.title_pattern, 'title_pattern'),
+    emojiTypes: parseEmojiTypes(readInput('emoji_types'), 'emoji_types') ?? parseEmojiTypes(file.emoji_types, 'emoji_types'),
+    severity,
+    disabledRules,
+    skip: resolveSkipRules(readInput, file),
+    labels: resolveLabelRules(readInput, file),
+    scopePaths: parseScopePaths(readInput('scope_paths'), 'scope_paths') ?? parseScopePaths(file.scope_paths, 'scope_paths'),
+    bumpTypes: parseBumpTypes(readInput('bump_types'), 'bump_types')
+      ?? parseBumpTypes(file.bump_types, 'bump_types')
+      ?? DEFAULT_BUMP_TYPES,
+    changelog: resolveChangelogOptions(readInput, file),
+    configWarnings: commitlint.warnings.length > 0 ? commitlint.warnings : undefined,
+  };
+}
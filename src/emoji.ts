@@ -0,0 +1,81 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getGraphemes } from './unicode';
+
+/**
+ * Gitmoji shortcodes and their emoji, so that `:sparkles:` and ✨ are the same prefix
+ */
+export const GITMOJI_SHORTCODES: Readonly<Record<string, string>> = {
+  ':sparkles:': '✨',
+  ':bug:': '🐛',
+  ':ambulance:': '🚑',
+  ':adhesive_bandage:': '🩹',
+  ':memo:': '📝',
+  ':art:': '🎨',
+  ':lipstick:': '💄',
+  ':recycle:': '♻',
+  ':zap:': '⚡',
+  ':white_check_mark:': '✅',
+  ':test_tube:': '🧪',
+  ':construction_worker:': '👷',
+  ':green_heart:': '💚',
+  ':package:': '📦',
+  ':arrow_up:': '⬆',
+  ':arrow_down:': '⬇',
+  ':heavy_plus_sign:': '➕',
+  ':heavy_minus_sign:': '➖',
+  ':wrench:': '🔧',
+  ':hammer:': '🔨',
+  ':fire:': '🔥',
+  ':truck:': '🚚',
+  ':pencil2:': '✏',
+  ':rewind:': '⏪',
+  ':boom:': '💥',
+  ':lock:': '🔒',
+  ':rocket:': '🚀',
+  ':bookmark:': '🔖',
+  ':tada:': '🎉',
+  ':rotating_light:': '🚨',
+  ':construction:': '🚧',
+};
+
+/**
+ * A leading emoji or `:shortcode:` and the length of the prefix, including the spaces after it
+ */
+export interface EmojiPrefix {
+  emoji: string;
+  length: number;
+}
+
+/**
+ * Parses the emoji or `:shortcode:` a title starts with
+ */
+export function parseEmojiPrefix(title: string): EmojiPrefix | undefined {
+  const shortcode = title.match(/^:[a-z0-9_+-]+:/);
+  const first = shortcode ? shortcode[0] : getGraphemes(title.substring(0, 32))[0] ?? '';
+  if (!shortcode && !/\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(first)) {
+    return undefined;
+  }
+  const spaces = title.substring(first.length).match(/^\s*/)?.[0] ?? '';
+  return { emoji: first, length: first.length + spaces.length };
+}
+
+/**
+ * Returns the emoji a shortcode stands for, without variation selectors, so that
+ * the forms of the same emoji compare equal
+ */
+export function normalizeEmoji(emoji: string): string {
+  return (GITMOJI_SHORTCODES[emoji] ?? emoji).replace(/\uFE0F/g, '');
+}
@@ -0,0 +1,108 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { WebhookPayload } from '@actions/github/lib/interfaces';
+import { getCommitHeader, isMergeCommit } from './commits';
+import { getCommitBody } from './message';
+import { CommitInfo, EventSubject } from './types';
+
+/**
+ * Events the action is documented to run on
+ */
+export const SUPPORTED_EVENTS: readonly string[] = [
+  'pull_request',
+  'pull_request_target',
+  'push',
+  'merge_group',
+  'workflow_dispatch',
+];
+
+/**
+ * Resolves a pull_request or pull_request_target event: the PR title, with the PR body as the message body
+ */
+function fromPullRequest(pullRequest: NonNullable<WebhookPayload['pull_request']>): EventSubject {
+  const title: string = pullRequest.title ?? '';
+  const body: string | undefined = pullRequest.body;
+  return {
+    title,
+    message: body ? `${title}\n\n${body}` : title,
+    pullRequest: pullRequest.number,
+    skip: {
+      title,
+      author: pullRequest.user?.login,
+      authorType: pullRequest.user?.type,
+      labels: (pullRequest.labels ?? []).map((label: { name: string }) => label.name),
+      draft: pullRequest.draft,
+    },
+  };
+}
+
+/**
+ * Resolves an event whose subject is a commit message, such as the head commit of a merge group
+ */
+function fromMessage(message: string, payload: WebhookPayload, commits?: CommitInfo[]): EventSubject {
+  const title = getCommitHeader(message);
+  return {
+    title,
+    message,
+    commits,
+    skip: { title, author: payload.sender?.login, authorType: payload.sender?.type },
+  };
+}
+
+/**
+ * Returns the message merged by a merge queue that uses merge commits: GitHub writes the PR title
+ * and body below a "Merge pull request #12 from owner/branch" header. Other messages are returned as is.
+ */
+function unwrapMergeCommit(message: string): string {
+  return (isMergeCommit({ sha: '', message }) && getCommitBody(message)) || message;
+}
+
+/**
+ * Finds what to check for the triggering event, returning undefined when the event has no title:
+ *
+ * - pull_request and pull_request_target: the PR title and body
+ * - merge_group: the message of the head commit of the merge queue branch, or the PR title and body
+ *   below the header of a merge commit
+ * - push: the message of the first commit, and every commit for commit checking
+ * - workflow_dispatch: the `title` input of the workflow
+ *
+ * Other events are resolved from their payload, so a payload with a PR is checked like a PR.
+ */
+export function resolveEventSubject(eventName: string, payload: WebhookPayload): EventSubject | undefined {
+  if (payload.pull_request) {
+    return fromPullRequest(payload.pull_request);
+  }
+
+  const headCommit = payload.merge_group?.head_commit;
+  if (eventName === 'merge_group' || headCommit) {
+    return typeof headCommit?.message === 'string'
+      ? fromMessage(unwrapMergeCommit(headCommit.message), payload)
+      : undefined;
+  }
+
+  if (Array.isArray(payload.commits) && payload.commits.length > 0) {
+    const commits: CommitInfo[] = payload.commits.map(
+      (commit: { id: string; message: string }) => ({ sha: commit.id, message: commit.message }),
+    );
+    return fromMessage(commits[0].message, payload, commits);
+  }
+
+  const title = payload.inputs?.title;
+  if (eventName === 'workflow_dispatch' && typeof title === 'string' && title.length > 0) {
+    return fromMessage(title, payload);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,197 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { parseEmojiPrefix } from './emoji';
+import { getImperative } from './mood';
+import { ALLOWED_TYPES, ERROR_CODES, PATTERNS, TYPE_ALIASES } from './rules';
+import { FixResult, TitleComponents, ValidationResult, ValidatorOptions } from './types';
+import { ConventionalCommitValidator } from './validator';
+
+/**
+ * Proposes a corrected title for mechanical Conventional Commits violations
+ */
+export class ConventionalCommitFixer {
+  private readonly validator: ConventionalCommitValidator;
+  private readonly allowedTypes: readonly string[];
+  private readonly imperativeVerbs: readonly string[];
+  private readonly emojiPrefix: boolean;
+  private readonly customPattern: boolean;
+
+  constructor(options: ValidatorOptions = {}) {
+    this.validator = new ConventionalCommitValidator(options);
+    this.allowedTypes = options.allowedTypes ?? ALLOWED_TYPES;
+    this.imperativeVerbs = options.imperativeVerbs ?? [];
+    this.emojiPrefix = options.emojiPrefix ?? false;
+    this.customPattern = options.titlePattern !== undefined;
+  }
+
+  /**
+   * Fixes every reported issue that can be fixed without guessing.
+   * Returns undefined when nothing could be fixed. The body is used to check the suggestion.
+   * Titles of a custom title pattern are not fixed, since the fixes rebuild Conventional Commits titles.
+   */
+  public fix(
+    title: string,
+    result: ValidationResult = this.validator.validate(title),
+    body?: string,
+  ): FixResult | undefined {
+    if (this.customPattern) {
+      return undefined;
+    }
+
+    // The title after an emoji prefix is fixed on its own, keeping the emoji
+    const emoji = this.emojiPrefix ? parseEmojiPrefix(title) : undefined;
+    if (emoji) {
+      const rest = this.fix(title.substring(emoji.length), result, body);
+      if (!rest) {
+        return undefined;
+      }
+      const suggestion = title.substring(0, emoji.length) + rest.title;
+      return { title: suggestion, fixed: rest.fixed, isValid: this.isValid(suggestion, result, body) };
+    }
+
+    // The title of a reverted change is fixed on its own, keeping the revert around it
+    const reverted = this.validator.parseRevert(title);
+    if (reverted) {
+      const original = this.fix(reverted.title);
+      if (!original) {
+        return undefined;
+      }
+      const suggestion = title.substring(0, reverted.offset) + original.title
+        + title.substring(reverted.offset + reverted.title.length);
+      return { title: suggestion, fixed: original.fixed, isValid: this.isValid(suggestion, result, body) };
+    }
+
+    const reported = new Set([...result.errors, ...result.warnings].map((error) => error.code));
+    const fixed: string[] = [];
+
+    // Replace a full-width colon first: the title cannot be parsed with it, so the
+    // issues of the description are only found by validating the replaced title
+    let normalized = title;
+    if (reported.has(ERROR_CODES.FULLWIDTH_COLON)) {
+      normalized = title.replace(/\s*：\s*/, ': ');
+      fixed.push(ERROR_CODES.FULLWIDTH_COLON);
+      if (reported.has(ERROR_CODES.NON_ASCII_CHARACTERS) && !PATTERNS.nonAscii.test(normalized)) {
+        fixed.push(ERROR_CODES.NON_ASCII_CHARACTERS);
+      }
+      const normalizedResult = this.validator.validate(normalized, body);
+      [...normalizedResult.errors, ...normalizedResult.warnings].forEach((error) => reported.add(error.code));
+    }
+
+    const components = this.validator.parseTitle(normalized);
+    if (!components) {
+      return undefined;
+    }
+    let { type, scope, description } = components;
+
+    // Lowercase the type, or replace a common misspelling of an allowed type
+    if (reported.has(ERROR_CODES.TYPE_NOT_LOWERCASE)) {
+      type = type.toLowerCase();
+      fixed.push(ERROR_CODES.TYPE_NOT_LOWERCASE);
+    }
+    const alias = TYPE_ALIASES[type.toLowerCase()];
+    if (reported.has(ERROR_CODES.INVALID_TYPE) && alias && this.allowedTypes.includes(alias)) {
+      type = alias;
+      fixed.push(ERROR_CODES.INVALID_TYPE);
+    }
+
+    // Drop empty parentheses and lowercase the scope
+    if (reported.has(ERROR_CODES.EMPTY_SCOPE)) {
+      scope = undefined;
+      fixed.push(ERROR_CODES.EMPTY_SCOPE);
+    }
+    if (scope !== undefined && reported.has(ERROR_CODES.SCOPE_NOT_LOWERCASE)) {
+      scope = scope.toLowerCase();
+      fixed.push(ERROR_CODES.SCOPE_NOT_LOWERCASE);
+    }
+
+    // Use the scope of the changed files, when they all belong to one
+    if (result.changedScopes?.length === 1) {
+      for (const code of [ERROR_CODES.MISSING_SCOPE, ERROR_CODES.SCOPE_MISMATCH]) {
+        if (reported.has(code)) {
+          scope = result.changedScopes[0];
+          fixed.push(code);
+        }
+      }
+    }
+
+    // A marker before the colon is moved by formatting; one in the description cannot be fixed
+    if (reported.has(ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION) && !description.includes('!')) {
+      fixed.push(ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION);
+    }
+
+    // Normalize the spaces around the description
+    const spaceCodes = [
+      ERROR_CODES.MISSING_SPACE_AFTER_COLON,
+      ERROR_CODES.MULTIPLE_SPACES_AFTER_COLON,
+      ERROR_CODES.DESCRIPTION_HAS_LEADING_SPACE,
+      ERROR_CODES.DESCRIPTION_HAS_TRAILING_SPACE,
+    ];
+    description = description.trim();
+    fixed.push(...spaceCodes.filter((code) => reported.has(code)));
+
+    // Convert the first verb to imperative mood
+    if (reported.has(ERROR_CODES.NON_IMPERATIVE_MOOD)) {
+      const [firstWord, ...rest] = description.split(' ');
+      const imperative = getImperative(firstWord, this.imperativeVerbs);
+      if (imperative) {
+        description = [imperative, ...rest].join(' ');
+        fixed.push(ERROR_CODES.NON_IMPERATIVE_MOOD);
+      }
+    }
+
+    // Lowercase the first letter, unless the first word is an acronym such as "API"
+    if (reported.has(ERROR_CODES.DESCRIPTION_NOT_LOWERCASE) && !/^[A-Z]{2}/.test(description)) {
+      description = description.charAt(0).toLowerCase() + description.substring(1);
+      fixed.push(ERROR_CODES.DESCRIPTION_NOT_LOWERCASE);
+    }
+
+    // Strip the trailing period or ideographic full stop
+    if (reported.has(ERROR_CODES.DESCRIPTION_ENDS_WITH_PERIOD)) {
+      description = description.replace(/[.。]+$/, '').trimEnd();
+      fixed.push(ERROR_CODES.DESCRIPTION_ENDS_WITH_PERIOD);
+    }
+
+    const suggestion = this.format({ ...components, type, scope, description });
+    if (fixed.length === 0 || suggestion === title) {
+      return undefined;
+    }
+
+    return {
+      title: suggestion,
+      fixed,
+      isValid: this.isValid(suggestion, result, body),
+    };
+  }
+
+  /**
+   * Checks a suggestion with every rule, and against the scopes of the changed files when the
+   * result was checked against them
+   */
+  private isValid(suggestion: string, result: ValidationResult, body?: string): boolean {
+    const checked = this.validator.validate(suggestion, body);
+    return result.changedScopes
+      ? this.validator.validateChangedScopes(checked, result.changedScopes).isValid
+      : checked.isValid;
+  }
+
+  /**
+   * Formats title components as a Conventional Commits title
+   */
+  private format(components: TitleComponents): string {
+    const scope = components.scope !== undefined ? `(${components.scope})` : '';
+    const breaking = components.isBreakingChange ? '!' : '';
+    return `${components.type}${scope}${breaking}: ${components.description}`;
+  }
+}
@@ -0,0 +1,174 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as github from '@actions/github';
+import { CommitInfo } from './types';
+
+/**
+ * Authenticated Octokit client as returned by github.getOctokit
+ */
+export type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Owner and name of a repository
+ */
+export interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Login of the workflow GITHUB_TOKEN, which cannot look up its own user
+ */
+export const GITHUB_ACTIONS_LOGIN = 'github-actions[bot]';
+
+/**
+ * A comment on a pull request conversation, with the login of its author
+ */
+export interface PullRequestComment {
+  id: number;
+  body: string;
+  author: string;
+}
+
+/**
+ * Lists the paths of the files changed by the pull request
+ */
+export interface ChangedFilesProvider {
+  listChangedFiles(): Promise<string[]>;
+}
+
+/**
+ * GitHub operations on the pull request being checked
+ */
+export interface PullRequestClient extends ChangedFilesProvider {
+  updateTitle(title: string): Promise<void>;
+  getLogin(): Promise<string>;
+  listCommits(): Promise<CommitInfo[]>;
+  listComments(): Promise<PullRequestComment[]>;
+  createComment(body: string): Promise<void>;
+  updateComment(id: number, body: string): Promise<void>;
+  deleteComment(id: number): Promise<void>;
+  listLabels(): Promise<string[]>;
+  addLabels(labels: string[]): Promise<void>;
+  removeLabel(label: string): Promise<void>;
+}
+
+/**
+ * Pull request client backed by the GitHub REST API
+ */
+export class OctokitPullRequestClient implements PullRequestClient {
+  constructor(
+    private readonly octokit: Octokit,
+    private readonly repo: RepoRef,
+    private readonly pullNumber: number,
+  ) {}
+
+  public async updateTitle(title: string): Promise<void> {
+    await this.octokit.rest.pulls.update({
+      ...this.repo,
+      pull_number: this.pullNumber,
+      title,
+    });
+  }
+
+  public async getLogin(): Promise<string> {
+    try {
+      const { data } = await this.octokit.rest.users.getAuthenticated();
+      return data.login;
+    } catch {
+      return GITHUB_ACTIONS_LOGIN;
+    }
+  }
+
+  public async listCommits(): Promise<CommitInfo[]> {
+    const commits = await this.octokit.paginate(this.octokit.rest.pulls.listCommits, {
+      ...this.repo,
+      pull_number: this.pullNumber,
+      per_page: 100,
+    });
+    return commits.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      parentCount: commit.parents.length,
+    }));
+  }
+
+  public async listChangedFiles(): Promise<string[]> {
+    const files = await this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
+      ...this.repo,
+      pull_number: this.pullNumber,
+      per_page: 100,
+    });
+    // A renamed file touches both its old and its new location
+    return files.flatMap((file) => (file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]));
+  }
+
+  public async listComments(): Promise<PullRequestComment[]> {
+    const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+      ...this.repo,
+      issue_number: this.pullNumber,
+      per_page: 100,
+    });
+    return comments.map((comment) => ({ id: comment.id, body: comment.body ?? '', author: comment.user?.login ?? '' }));
+  }
+
+  public async createComment(body: string): Promise<void> {
+    await this.octokit.rest.issues.createComment({
+      ...this.repo,
+      issue_number: this.pullNumber,
+      body,
+    });
+  }
+
+  public async updateComment(id: number, body: string): Promise<void> {
+    await this.octokit.rest.issues.updateComment({
+      ...this.repo,
+      comment_id: id,
+      body,
+    });
+  }
+
+  public async deleteComment(id: number): Promise<void> {
+    await this.octokit.rest.issues.deleteComment({
+      ...this.repo,
+      comment_id: id,
+    });
+  }
+
+  public async listLabels(): Promise<string[]> {
+    const labels = await this.octokit.paginate(this.octokit.rest.issues.listLabelsOnIssue, {
+      ...this.repo,
+      issue_number: this.pullNumber,
+      per_page: 100,
+    });
+    return labels.map((label) => label.name);
+  }
+
+  public async addLabels(labels: string[]): Promise<void> {
+    await this.octokit.rest.issues.addLabels({
+      ...this.repo,
+      issue_number: this.pullNumber,
+      labels,
+    });
+  }
+
+  public async removeLabel(label: string): Promise<void> {
+    await this.octokit.rest.issues.removeLabel({
+      ...this.repo,
+      issue_number: this.pullNumber,
+      name: label,
+    });
+  }
+}
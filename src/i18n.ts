@@ -0,0 +1,45 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { en } from './locales/en';
+import { zhCN } from './locales/zh-CN';
+import { Language, MessageCatalog, MessageParams } from './types';
+
+/**
+ * Message catalogs of the supported languages
+ */
+const CATALOGS: Readonly<Record<Language, MessageCatalog>> = {
+  'en': en,
+  'zh-CN': zhCN,
+};
+
+/**
+ * Supported languages
+ */
+export const LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+/**
+ * Returns the message catalog of a language
+ */
+export function getCatalog(language: Language = 'en'): MessageCatalog {
+  return CATALOGS[language];
+}
+
+/**
+ * Fills the {name} placeholders of a template; placeholders without a value are kept
+ */
+export function formatMessage(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    (Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : placeholder));
+}
@@ -14,97 +14,246 @@
 
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { ConventionalCommitValidator } from './validator';
+import { ConventionalCommitValidator, createTitleParser } from './validator';
+import { ConventionalCommitFixer } from './fixer';
+import { ConfigError, resolveOptions } from './config';
+import { OctokitPullRequestClient, PullRequestClient } from './github';
+import { buildComment, syncComment } from './comment';
+import { CommitCheckOptions, validateCommits } from './commits';
+import { getCommitsBump, getMessageBump } from './bump';
+import { syncLabels } from './labels';
+import { getCommitBody, parseCommitMessage } from './message';
+import { toActionOutputs } from './output';
+import { getChangedScopes } from './scopes';
+import { resolveEventSubject, SUPPORTED_EVENTS } from './events';
+import { getSkipReason } from './skip';
+import { renderAnnotations, renderCommitsText, renderMarkdown, RenderInput, renderText } from './renderer';
+import { CommitResult, FixResult, LabelRules, Language, ValidationResult } from './types';
+
+/**
+ * Updates the PR title without failing the check when the API call fails, such as with the
+ * read-only token of a fork PR. Returns whether the title was updated.
+ */
+async function updateTitle(client: PullRequestClient, title: string): Promise<boolean> {
+  try {
+    await client.updateTitle(title);
+    core.info(`✏️  Updated PR title to "${title}"`);
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    core.warning(`Unable to update PR title: ${reason}`);
+    return false;
+  }
+}
+
+/**
+ * Syncs the sticky PR comment without failing the check when the API call fails
+ */
+async function updateComment(client: PullRequestClient, body?: string) {
+  try {
+    const action = await syncComment(client, body);
+    core.info(`💬 PR comment ${action}`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    core.warning(`Unable to update PR comment: ${reason}`);
+  }
+}
+
+/**
+ * Labels the PR from the parsed title without failing the check when the API call fails
+ */
+async function updateLabels(client: PullRequestClient, rules: LabelRules, result: ValidationResult) {
+  if (!result.components) {
+    return;
+  }
+  try {
+    const { added, removed } = await syncLabels(client, result.components, rules);
+    if (added.length > 0 || removed.length > 0) {
+      core.info(`🏷️  Labels added: ${added.join(', ') || 'none'}; removed: ${removed.join(', ') || 'none'}`);
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    core.warning(`Unable to update PR labels: ${reason}`);
+  }
+}
+
+/**
+ * Marks the parsed title as a breaking change when the message has a BREAKING CHANGE footer,
+ * so that the outputs and labels agree with the bump when the body is not validated
+ */
+function withFooterBreaking(result: ValidationResult, message: string): ValidationResult {
+  const components = result.components;
+  if (!components || components.isBreakingChange || !parseCommitMessage(message).isBreakingChange) {
+    return result;
+  }
+  return { ...result, components: { ...components, isBreakingChange: true } };
+}
+
+/**
+ * Exposes the result and the parsed components to later workflow steps
+ */
+function setResultOutputs(result: ValidationResult, fix?: FixResult) {
+  for (const [name, value] of Object.entries(toActionOutputs(result, fix))) {
+    core.setOutput(name, value);
+  }
+}
+
+/**
+ * Logs the result of every commit and fails the check when any commit is invalid
+ */
+function reportCommits(commits: CommitResult[], language: Language): boolean {
+  for (const commit of commits) {
+    for (const annotation of renderAnnotations(commit.result, language)) {
+      const annotate = annotation.level === 'error' ? core.error : core.warning;
+      annotate(`${commit.sha.substring(0, 7)} "${commit.header}": ${annotation.message}`, { title: annotation.title });
+    }
+  }
+
+  const passed = commits.every((commit) => !commit.result || commit.result.isValid);
+  if (passed) {
+    core.info(renderCommitsText(commits, language));
+  } else {
+    core.setFailed(renderCommitsText(commits, language));
+  }
+  return passed;
+}
 
 async function run() {
   try {
-    // Get the strict mode setting (default: true)
-    const strictMode = core.getInput('strict') !== 'false';
-
-    // Get the max description length (default: 50)
-    const maxDescriptionLengthInput = core.getInput('max_description_length');
-    const maxDescriptionLength = maxDescriptionLengthInput
-      ? parseInt(maxDescriptionLengthInput, 10)
-      : 50;
-
-    // Validate the max description length
-    if (isNaN(maxDescriptionLength) || maxDescriptionLength <= 0) {
-      core.setFailed('max_description_length must be a positive number');
+    // Resolve options from action inputs and the repository config file
+    const options = resolveOptions(
+      (name) => core.getInput(name),
+      process.env.GITHUB_WORKSPACE ?? process.cwd(),
+    );
+    options.configWarnings?.forEach((warning) => core.warning(warning));
+
+    const context = github.context;
+    const validator = new ConventionalCommitValidator(options);
+    const parser = createTitleParser(options);
+
+    // Find the title to check, and the full message for body checking, from the event
+    const subject = resolveEventSubject(context.eventName, context.payload);
+    if (!subject) {
+      core.setFailed(`Unable to get PR title or commit message from the ${context.eventName} event `
+        + `(supported events: ${SUPPORTED_EVENTS.join(', ')})`);
       return;
     }
 
-    // Get the title to check
-    const context = github.context;
-    let titleToCheck: string;
+    // Skip ignored authors, bots, labels, drafts and titles, and tell why
+    const skipReason = getSkipReason(subject.skip, options.skip);
+    core.setOutput('skip_reason', skipReason ?? '');
+    if (skipReason) {
+      core.notice(`Title check skipped: ${skipReason}`);
+      return;
+    }
 
-    if (context.payload.pull_request) {
-      titleToCheck = context.payload.pull_request.title;
-    } else if (context.payload.commits && context.payload.commits.length > 0) {
-      titleToCheck = context.payload.commits[0].message.split('\n')[0];
-    } else {
-      core.setFailed('Unable to get PR title or commit message');
+    // Commit and body checking settings
+    const checkBody = core.getInput('check_body') === 'true';
+    const checkCommits = core.getInput('check_commits') === 'true';
+    const commitOptions: CommitCheckOptions = {
+      checkBody,
+      skipMergeCommits: core.getInput('skip_merge_commits') === 'true',
+      skipAutosquashCommits: core.getInput('skip_autosquash_commits') === 'true',
+    };
+
+    // Validate every commit of a push
+    const commits = subject.commits;
+    if (checkCommits && commits) {
+      const passed = reportCommits(validateCommits(validator, commits, commitOptions), options.language);
+      core.setOutput('valid', String(passed));
+      core.setOutput('bump', getCommitsBump(commits, options.bumpTypes, parser));
       return;
     }
 
+    const { title: titleToCheck, message: messageToCheck } = subject;
     core.info(`Checking title: "${titleToCheck}"`);
 
-    // Validate the title
-    const validator = new ConventionalCommitValidator({
-      strict: strictMode,
-      maxDescriptionLength: maxDescriptionLength,
-    });
-    const result = validator.validate(titleToCheck);
-
-    if (!result.isValid) {
-      // Build error message
-      const errorLines = [
-        `❌ Title "${titleToCheck}" does not conform to Conventional Commits specification.`,
-        '',
-        '📋 Found the following issues:',
-        '',
-      ];
-
-      result.errors.forEach((error, index) => {
-        errorLines.push(`${index + 1}. ${error.message}`);
-        if (error.example) {
-          errorLines.push(`   Example: ${error.example}`);
-        }
-        errorLines.push('');
-      });
-
-      errorLines.push('');
-      errorLines.push('📖 Format Requirements:');
-      errorLines.push('');
-      errorLines.push('   <type>[optional scope][optional !]: <description>');
-      errorLines.push('');
-      errorLines.push('   • type: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert');
-      errorLines.push('   • scope: optional, lowercase letters/numbers/hyphens/underscores only');
-      errorLines.push('   • !: optional breaking change marker (placed after scope, before colon)');
-      errorLines.push(`   • description: required, max ${maxDescriptionLength} characters`);
-
-      if (strictMode) {
-        errorLines.push('');
-        errorLines.push('⚙️  Strict mode is enabled:');
-        errorLines.push('   • Description must start with lowercase letter');
-        errorLines.push('   • Description must not end with a period');
-        errorLines.push('   • Description should use imperative mood (e.g., "add" not "added")');
-      }
-
-      errorLines.push('');
-      errorLines.push('✅ Valid examples:');
-      errorLines.push('   • feat: add user authentication');
-      errorLines.push('   • fix(api): resolve timeout issue');
-      errorLines.push('   • docs(readme): update installation steps');
-      errorLines.push('   • feat(api)!: breaking change in API');
-      errorLines.push('');
-      errorLines.push('📚 Learn more: https://www.conventionalcommits.org/');
-
-      core.setFailed(errorLines.join('\n'));
+    // The release bump counts a BREAKING CHANGE footer in the PR body or commit message
+    core.setOutput('bump', getMessageBump(messageToCheck, options.bumpTypes, parser));
+
+    // The PR client is only needed for auto fix, the sticky comment, labels, scope paths and commit checking
+    const autoFix = core.getInput('auto_fix') === 'true';
+    const comment = core.getInput('comment') === 'true';
+    const autoLabel = options.labels.enabled;
+    let client: PullRequestClient | undefined;
+    if (subject.pullRequest !== undefined && (autoFix || comment || autoLabel || options.scopePaths || checkCommits)) {
+      client = new OctokitPullRequestClient(
+        github.getOctokit(core.getInput('github_token', { required: true })),
+        context.repo,
+        subject.pullRequest,
+      );
+    }
+
+    // Check the scope against the areas touched by the changed files, for the title and its fix
+    let changedScopes: string[] | undefined;
+    if (client && options.scopePaths) {
+      changedScopes = await getChangedScopes(client, options.scopePaths);
+      core.info(`Scopes of the changed files: ${changedScopes.join(', ') || 'none'}`);
+    }
+    const withChangedScopes = (checked: ValidationResult) =>
+      (changedScopes ? validator.validateChangedScopes(checked, changedScopes) : checked);
+
+    // Validate the title, or the full message when body checking is enabled
+    const bodyToCheck = getCommitBody(messageToCheck);
+    const result = withChangedScopes(checkBody
+      ? validator.validateMessage(messageToCheck)
+      : withFooterBreaking(validator.validate(titleToCheck, bodyToCheck), messageToCheck));
+
+    // Propose a corrected title for fixable issues
+    const fix = new ConventionalCommitFixer(options).fix(titleToCheck, result, bodyToCheck);
+    let rendered: RenderInput = { title: titleToCheck, result, fix, options };
+
+    // Validate every commit of the PR
+    let commitsPassed = true;
+    if (client && checkCommits) {
+      commitsPassed = reportCommits(
+        validateCommits(validator, await client.listCommits(), commitOptions),
+        options.language,
+      );
+    }
+
+    // Update the PR title when auto fix is enabled and the suggestion passes, and report the
+    // fixed title from then on; when the update fails, the original title is reported
+    if (client && autoFix && fix?.isValid && await updateTitle(client, fix.title)) {
+      const fixedResult = withChangedScopes(
+        withFooterBreaking(validator.validate(fix.title, bodyToCheck), messageToCheck),
+      );
+      rendered = { title: fix.title, result: fixedResult, options };
+    }
+    const reported = rendered.result;
+
+    setResultOutputs(reported, rendered.fix);
+    // The PR is only valid when its commits pass too
+    core.setOutput('valid', String(reported.isValid && commitsPassed));
+
+    // Label the PR from the parsed type, scope and breaking marker
+    if (client && autoLabel) {
+      await updateLabels(client, options.labels, reported);
+    }
+
+    // Report the result in a sticky PR comment
+    if (client && comment) {
+      await updateComment(client, reported.isValid ? undefined : buildComment(rendered));
+    }
+
+    // Report errors and warnings as annotations, and the full result in the job summary
+    for (const annotation of renderAnnotations(reported, options.language)) {
+      const annotate = annotation.level === 'error' ? core.error : core.warning;
+      annotate(annotation.message, { title: annotation.title });
+    }
+    if (core.getInput('job_summary') !== 'false' && process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(renderMarkdown(rendered), true).write();
+    }
+
+    if (!reported.isValid) {
+      core.setFailed(renderText(rendered));
     } else {
-      core.info(`✅ Title conforms to Conventional Commits specification`);
+      core.info(renderText(rendered));
     }
   } catch (error) {
-    if (error instanceof Error) {
+    if (error instanceof ConfigError) {
+      core.setFailed(error.message);
+    } else if (error instanceof Error) {
       core.setFailed(`Unexpected error: ${error.message}`);
     } else {
       core.setFailed('An unknown error occurred');
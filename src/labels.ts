@@ -0,0 +1,115 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PullRequestClient } from './github';
+import { LabelRules, TitleComponents } from './types';
+
+/**
+ * Labels applied per type when no type_labels are configured
+ */
+export const DEFAULT_TYPE_LABELS: Readonly<Record<string, string>> = {
+  feat: 'enhancement',
+  fix: 'bug',
+  docs: 'documentation',
+};
+
+/**
+ * Label applied to breaking changes when no breaking_label is configured
+ */
+export const DEFAULT_BREAKING_LABEL = 'breaking-change';
+
+/**
+ * Placeholder replaced by the scope in the scope_label template
+ */
+export const SCOPE_PLACEHOLDER = '{scope}';
+
+/**
+ * Labels added to and removed from a PR
+ */
+export interface LabelChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Returns the labels that the parsed title calls for
+ */
+export function getLabels(components: TitleComponents, rules: LabelRules): string[] {
+  const labels: string[] = [];
+  const type = components.type.toLowerCase();
+  const typeLabel = Object.prototype.hasOwnProperty.call(rules.types, type) ? rules.types[type] : undefined;
+  if (typeLabel) {
+    labels.push(typeLabel);
+  }
+  if (components.scope && rules.scope) {
+    labels.push(rules.scope.replace(SCOPE_PLACEHOLDER, components.scope));
+  }
+  if (components.isBreakingChange && rules.breaking) {
+    labels.push(rules.breaking);
+  }
+  return labels;
+}
+
+/**
+ * Checks whether a label is one this action applies, and so may remove once it is stale.
+ * A scope template without text around the placeholder matches any label, so its labels are never removed.
+ */
+export function isManagedLabel(label: string, rules: LabelRules): boolean {
+  const name = label.toLowerCase();
+  if (Object.values(rules.types).some((typeLabel) => typeLabel.toLowerCase() === name)) {
+    return true;
+  }
+  if (rules.breaking && rules.breaking.toLowerCase() === name) {
+    return true;
+  }
+  if (rules.scope) {
+    const [prefix, suffix] = rules.scope.toLowerCase().split(SCOPE_PLACEHOLDER);
+    if (prefix.length + suffix.length === 0) {
+      return false;
+    }
+    return name.length > prefix.length + suffix.length && name.startsWith(prefix) && name.endsWith(suffix);
+  }
+  return false;
+}
+
+/**
+ * Computes the labels to add, and the managed labels that no longer match the title.
+ * Label names are compared case-insensitively, like on GitHub.
+ */
+export function planLabels(current: string[], components: TitleComponents, rules: LabelRules): LabelChanges {
+  const wanted = getLabels(components, rules);
+  const has = (labels: string[], label: string) => labels.some((l) => l.toLowerCase() === label.toLowerCase());
+  return {
+    added: wanted.filter((label) => !has(current, label)),
+    removed: current.filter((label) => isManagedLabel(label, rules) && !has(wanted, label)),
+  };
+}
+
+/**
+ * Applies the labels of the parsed title to the PR and removes stale ones
+ */
+export async function syncLabels(
+  client: PullRequestClient,
+  components: TitleComponents,
+  rules: LabelRules,
+): Promise<LabelChanges> {
+  const changes = planLabels(await client.listLabels(), components, rules);
+  if (changes.added.length > 0) {
+    await client.addLabels(changes.added);
+  }
+  for (const label of changes.removed) {
+    await client.removeLabel(label);
+  }
+  return changes;
+}
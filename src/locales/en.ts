@@ -0,0 +1,136 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { MessageCatalog } from '../types';
+
+/**
+ * English messages, the default
+ */
+export const en: MessageCatalog = {
+  messages: {
+    INVALID_FORMAT: 'Title format is incorrect. Expected format: <type>[optional scope][optional !]: <description>',
+    INVALID_TYPE: 'Type must be one of: {types}',
+    TYPE_NOT_LOWERCASE: 'Type must be lowercase',
+    EMPTY_SCOPE: 'Scope cannot be empty. Either provide a scope or omit the parentheses',
+    INVALID_SCOPE_FORMAT: 'Scope format is incorrect. Scope should only contain lowercase letters, numbers, hyphens, and underscores',
+    INVALID_SCOPE: 'Scope must be one of: {scopes}',
+    SCOPE_NOT_LOWERCASE: 'Scope must be lowercase (strict mode)',
+    INVALID_BREAKING_CHANGE_POSITION: 'Breaking change marker (!) must be placed after the scope (or type if no scope) and before the colon',
+    MISSING_DESCRIPTION: 'Description is required after the colon and space',
+    DESCRIPTION_TOO_LONG: 'Description must not exceed {maxLength} characters',
+    DESCRIPTION_TOO_LONG_UNICODE: 'Description must not exceed {maxLength} columns (full-width characters count as two)',
+    HEADER_TOO_LONG: 'Title must not exceed {maxLength} characters',
+    DESCRIPTION_NOT_LOWERCASE: 'Description must start with a lowercase letter (strict mode)',
+    DESCRIPTION_ENDS_WITH_PERIOD: 'Description must not end with a period (strict mode)',
+    DESCRIPTION_HAS_LEADING_SPACE: 'Description must not start with a space',
+    DESCRIPTION_HAS_TRAILING_SPACE: 'Description must not end with a space',
+    MISSING_SPACE_AFTER_COLON: 'There must be exactly one space after the colon',
+    MULTIPLE_SPACES_AFTER_COLON: 'There must be exactly one space after the colon, not multiple spaces',
+    NON_ASCII_CHARACTERS: 'Title must only contain displayable ASCII characters (range: 32-126)',
+    NON_ASCII_CHARACTERS_UNICODE: 'Type and scope must only contain displayable ASCII characters, and the title must not contain control characters',
+    FULLWIDTH_COLON: 'The type must be followed by an ASCII colon and a space, not a full-width colon (：)',
+    NON_IMPERATIVE_MOOD: 'Description should use imperative mood (e.g., "add" not "added")',
+    POSSIBLE_NON_IMPERATIVE_MOOD: 'Description may not use imperative mood: if "{word}" is a verb, use its base form (e.g., "add" not "adds" or "adding")',
+    MISSING_BLANK_LINE_AFTER_HEADER: 'The body must be separated from the header by a blank line',
+    INVALID_FOOTER_TOKEN: 'Footer token "{token}" is invalid. Footer tokens must use "-" instead of spaces, and BREAKING CHANGE must be uppercase',
+    SCOPE_MISMATCH: 'Scope "{scope}" does not match the changed files, which belong to: {scopes}',
+    MISSING_SCOPE: 'Scope is missing. The changed files belong to: {scopes}',
+    MISSING_TICKET_REFERENCE: 'Title must end with a ticket reference matching /{pattern}/',
+    MISSING_TICKET_REFERENCE_SCOPE: 'Scope must be a ticket reference matching /{pattern}/',
+    MISSING_TICKET_REFERENCE_BODY: 'Body must contain a ticket reference matching /{pattern}/',
+    MISSING_REVERT_REFERENCE: 'The body of a revert must reference the reverted commit SHA or PR number',
+    EMOJI_TYPE_MISMATCH: 'Emoji {emoji} does not match type "{type}", which uses: {emojis}',
+    INVALID_FORMAT_PATTERN: 'Title format is incorrect. Expected a title matching /{pattern}/',
+    REVERTED_ISSUE: 'Reverted title: {message}',
+  },
+
+  examples: {
+    INVALID_FORMAT: 'feat(auth): add user login',
+    INVALID_TYPE: '{type}: add new feature',
+    TYPE_NOT_LOWERCASE: 'feat: add new feature',
+    EMPTY_SCOPE: 'feat(auth): add user login',
+    INVALID_SCOPE_FORMAT: 'feat(user-auth): add login',
+    INVALID_SCOPE: '{type}({scope}): add user login',
+    SCOPE_NOT_LOWERCASE: 'feat(auth): add user login',
+    INVALID_BREAKING_CHANGE_POSITION: 'feat(api)!: breaking change',
+    MISSING_DESCRIPTION: 'feat: add new feature',
+    DESCRIPTION_TOO_LONG: 'feat: add user authentication',
+    HEADER_TOO_LONG: 'feat(auth): add user authentication',
+    DESCRIPTION_NOT_LOWERCASE: 'feat: add user authentication',
+    DESCRIPTION_ENDS_WITH_PERIOD: 'feat: add user authentication',
+    DESCRIPTION_HAS_LEADING_SPACE: 'feat: add user authentication',
+    DESCRIPTION_HAS_TRAILING_SPACE: 'feat: add user authentication',
+    MISSING_SPACE_AFTER_COLON: 'feat: add new feature',
+    MULTIPLE_SPACES_AFTER_COLON: 'feat: add new feature',
+    NON_ASCII_CHARACTERS: 'feat: add user authentication',
+    FULLWIDTH_COLON: 'feat: add user authentication',
+    NON_IMPERATIVE_MOOD: '{type}: {description} (not "{word}")',
+    POSSIBLE_NON_IMPERATIVE_MOOD: '{type}: {description} (not "{word}")',
+    MISSING_BLANK_LINE_AFTER_HEADER: 'feat: add login\\n\\nSupport OAuth2 providers',
+    INVALID_FOOTER_TOKEN: 'Reviewed-by: Z',
+    SCOPE_MISMATCH: 'fix(query): handle empty result',
+    MISSING_SCOPE: 'fix(query): handle empty result',
+    MISSING_TICKET_REFERENCE: '{type}: add user login (GEMINI-123)',
+    MISSING_REVERT_REFERENCE: 'This reverts commit 1a2b3c4.',
+    EMOJI_TYPE_MISMATCH: '{expected} {title}',
+  },
+
+  report: {
+    titleValid: '✅ Title "{title}" conforms to Conventional Commits specification',
+    titleInvalid: '❌ Title "{title}" does not conform to Conventional Commits specification.',
+    titleValidPattern: '✅ Title "{title}" matches the title pattern',
+    titleInvalidPattern: '❌ Title "{title}" does not match the title pattern.',
+    foundIssues: '📋 Found the following issues:',
+    warnings: '⚠️  Warnings:',
+    example: 'Example: {example}',
+    suggestedTitle: '💡 Suggested title: {title}',
+    formatRequirements: '📖 Format Requirements:',
+    requirementType: 'type: {types}',
+    requirementScopeList: 'scope: optional, one of: {scopes}',
+    requirementScope: 'scope: optional, lowercase letters/numbers/hyphens/underscores only',
+    requirementBreaking: '!: optional breaking change marker (placed after scope, before colon)',
+    requirementDescription: 'description: required, max {maxLength} characters',
+    strictEnabled: '⚙️  Strict mode is enabled:',
+    strictLowercase: 'Description must start with lowercase letter',
+    strictPeriod: 'Description must not end with a period',
+    strictImperative: 'Description should use imperative mood (e.g., "add" not "added")',
+    validExamples: '✅ Valid examples:',
+    learnMore: '📚 Learn more: https://www.conventionalcommits.org/',
+    commitsInvalid: '❌ {count} commit(s) do not conform to Conventional Commits specification.',
+    commitsChecked: '✅ {count} commit(s) checked',
+    commitSkipped: 'skipped {reason}',
+    summaryValid: '### ✅ Title conforms to Conventional Commits',
+    summaryInvalid: '### ❌ Title does not conform to Conventional Commits',
+    summaryTitle: 'Title: {title}',
+    summaryValidPattern: '### ✅ Title matches the title pattern',
+    summaryInvalidPattern: '### ❌ Title does not match the title pattern',
+    component: 'Component',
+    value: 'Value',
+    type: 'Type',
+    scope: 'Scope',
+    breakingChange: 'Breaking change',
+    description: 'Description',
+    yes: 'yes',
+    no: 'no',
+    severity: 'Severity',
+    code: 'Code',
+    message: 'Message',
+    exampleColumn: 'Example',
+    error: 'error',
+    warning: 'warning',
+    summarySuggestedTitle: '💡 **Suggested title:** {title}',
+    summaryDetails: 'Format requirements and valid examples',
+    annotationTitle: 'Title check: {code}',
+  },
+};
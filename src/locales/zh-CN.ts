@@ -0,0 +1,112 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { MessageCatalog } from '../types';
+import { en } from './en';
+
+/**
+ * Simplified Chinese messages. Example titles stay in English, as titles are written in English by default.
+ */
+export const zhCN: MessageCatalog = {
+  messages: {
+    INVALID_FORMAT: '标题格式不正确。正确格式：<type>[可选 scope][可选 !]: <description>',
+    INVALID_TYPE: '类型必须是以下之一：{types}',
+    TYPE_NOT_LOWERCASE: '类型必须是小写',
+    EMPTY_SCOPE: '范围（scope）不能为空。请填写范围，或去掉括号',
+    INVALID_SCOPE_FORMAT: '范围（scope）格式不正确。范围只能包含小写字母、数字、连字符和下划线',
+    INVALID_SCOPE: '范围（scope）必须是以下之一：{scopes}',
+    SCOPE_NOT_LOWERCASE: '范围（scope）必须是小写（严格模式）',
+    INVALID_BREAKING_CHANGE_POSITION: '破坏性变更标记（!）必须放在范围（无范围时为类型）之后、冒号之前',
+    MISSING_DESCRIPTION: '冒号和空格之后必须有描述',
+    DESCRIPTION_TOO_LONG: '描述不能超过 {maxLength} 个字符',
+    DESCRIPTION_TOO_LONG_UNICODE: '描述不能超过 {maxLength} 列（全角字符计为两列）',
+    HEADER_TOO_LONG: '标题不能超过 {maxLength} 个字符',
+    DESCRIPTION_NOT_LOWERCASE: '描述必须以小写字母开头（严格模式）',
+    DESCRIPTION_ENDS_WITH_PERIOD: '描述不能以句号结尾（严格模式）',
+    DESCRIPTION_HAS_LEADING_SPACE: '描述不能以空格开头',
+    DESCRIPTION_HAS_TRAILING_SPACE: '描述不能以空格结尾',
+    MISSING_SPACE_AFTER_COLON: '冒号之后必须有且只有一个空格',
+    MULTIPLE_SPACES_AFTER_COLON: '冒号之后必须有且只有一个空格，不能有多个空格',
+    NON_ASCII_CHARACTERS: '标题只能包含可显示的 ASCII 字符（范围：32-126）',
+    NON_ASCII_CHARACTERS_UNICODE: '类型和范围只能包含可显示的 ASCII 字符，标题不能包含控制字符',
+    FULLWIDTH_COLON: '类型之后必须是英文冒号加一个空格，不能使用全角冒号（：）',
+    NON_IMPERATIVE_MOOD: '描述应使用祈使语气（例如用 "add"，而不是 "added"）',
+    POSSIBLE_NON_IMPERATIVE_MOOD: '描述可能未使用祈使语气：如果 "{word}" 是动词，请使用原形（例如用 "add"，而不是 "adds" 或 "adding"）',
+    MISSING_BLANK_LINE_AFTER_HEADER: '正文与标题之间必须有一个空行',
+    INVALID_FOOTER_TOKEN: '脚注标记 "{token}" 无效。脚注标记必须用 "-" 代替空格，BREAKING CHANGE 必须大写',
+    SCOPE_MISMATCH: '范围 "{scope}" 与改动的文件不符，改动的文件属于：{scopes}',
+    MISSING_SCOPE: '缺少范围（scope）。改动的文件属于：{scopes}',
+    MISSING_TICKET_REFERENCE: '标题必须以匹配 /{pattern}/ 的工单编号结尾',
+    MISSING_TICKET_REFERENCE_SCOPE: '范围（scope）必须是匹配 /{pattern}/ 的工单编号',
+    MISSING_TICKET_REFERENCE_BODY: '正文必须包含匹配 /{pattern}/ 的工单编号',
+    MISSING_REVERT_REFERENCE: '撤销提交的正文必须引用被撤销的提交 SHA 或 PR 编号',
+    EMOJI_TYPE_MISMATCH: '表情 {emoji} 与类型 "{type}" 不匹配，该类型使用：{emojis}',
+    INVALID_FORMAT_PATTERN: '标题格式不正确。标题必须匹配 /{pattern}/',
+    REVERTED_ISSUE: '被撤销的标题：{message}',
+  },
+
+  examples: {
+    ...en.examples,
+    NON_IMPERATIVE_MOOD: '{type}: {description}（而不是 "{word}"）',
+    POSSIBLE_NON_IMPERATIVE_MOOD: '{type}: {description}（而不是 "{word}"）',
+  },
+
+  report: {
+    titleValid: '✅ 标题 "{title}" 符合约定式提交（Conventional Commits）规范',
+    titleInvalid: '❌ 标题 "{title}" 不符合约定式提交（Conventional Commits）规范。',
+    titleValidPattern: '✅ 标题 "{title}" 符合标题模式',
+    titleInvalidPattern: '❌ 标题 "{title}" 不符合标题模式。',
+    foundIssues: '📋 发现以下问题：',
+    warnings: '⚠️  警告：',
+    example: '示例：{example}',
+    suggestedTitle: '💡 建议标题：{title}',
+    formatRequirements: '📖 格式要求：',
+    requirementType: 'type：{types}',
+    requirementScopeList: 'scope：可选，必须是以下之一：{scopes}',
+    requirementScope: 'scope：可选，只能包含小写字母、数字、连字符和下划线',
+    requirementBreaking: '!：可选的破坏性变更标记（放在 scope 之后、冒号之前）',
+    requirementDescription: 'description：必填，最多 {maxLength} 个字符',
+    strictEnabled: '⚙️  已启用严格模式：',
+    strictLowercase: '描述必须以小写字母开头',
+    strictPeriod: '描述不能以句号结尾',
+    strictImperative: '描述应使用祈使语气（例如用 "add"，而不是 "added"）',
+    validExamples: '✅ 正确示例：',
+    learnMore: '📚 了解更多：https://www.conventionalcommits.org/zh-hans/',
+    commitsInvalid: '❌ {count} 个提交不符合约定式提交（Conventional Commits）规范。',
+    commitsChecked: '✅ 已检查 {count} 个提交',
+    commitSkipped: '已跳过：{reason}',
+    summaryValid: '### ✅ 标题符合约定式提交规范',
+    summaryInvalid: '### ❌ 标题不符合约定式提交规范',
+    summaryTitle: '标题：{title}',
+    summaryValidPattern: '### ✅ 标题符合标题模式',
+    summaryInvalidPattern: '### ❌ 标题不符合标题模式',
+    component: '组成部分',
+    value: '值',
+    type: '类型',
+    scope: '范围',
+    breakingChange: '破坏性变更',
+    description: '描述',
+    yes: '是',
+    no: '否',
+    severity: '级别',
+    code: '代码',
+    message: '信息',
+    exampleColumn: '示例',
+    error: '错误',
+    warning: '警告',
+    summarySuggestedTitle: '💡 **建议标题：** {title}',
+    summaryDetails: '格式要求和正确示例',
+    annotationTitle: '标题检查：{code}',
+  },
+};
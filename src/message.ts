@@ -0,0 +1,121 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PATTERNS } from './rules';
+import { CommitMessage, Footer } from './types';
+
+/**
+ * Checks that a footer token uses "-" instead of spaces, with BREAKING CHANGE as the only exception.
+ * BREAKING CHANGE (or BREAKING-CHANGE) must be uppercase.
+ */
+export function isValidFooterToken(token: string): boolean {
+  if (PATTERNS.breakingChangeToken.test(token)) {
+    return token === token.toUpperCase();
+  }
+  return /^[\w-]+$/.test(token);
+}
+
+/**
+ * Checks whether a footer marks a breaking change
+ */
+export function isBreakingChangeFooter(footer: Footer): boolean {
+  return footer.token === 'BREAKING CHANGE' || footer.token === 'BREAKING-CHANGE';
+}
+
+/**
+ * Removes the lines git ignores in a commit message file: comment lines,
+ * everything below the scissors line written by `git commit --verbose`,
+ * and leading blank lines
+ */
+export function stripCommentLines(message: string, commentChar = '#'): string {
+  const lines: string[] = [];
+  for (const line of message.replace(/\r\n?/g, '\n').split('\n')) {
+    if (line === `${commentChar} ------------------------ >8 ------------------------`) {
+      break;
+    }
+    if (!line.startsWith(commentChar)) {
+      lines.push(line);
+    }
+  }
+  // Like git, drop the blank lines left above the header
+  return lines.join('\n').replace(/^(\s*\n)+/, '');
+}
+
+/**
+ * Returns everything below the header of a commit message, including the footers
+ */
+export function getCommitBody(message: string): string {
+  const newline = message.indexOf('\n');
+  return newline === -1 ? '' : message.substring(newline + 1).trim();
+}
+
+/**
+ * Parses a footer line, accepting invalid tokens so that they can be reported
+ */
+function parseFooterLine(line: string): Footer | undefined {
+  const match = line.match(PATTERNS.footer) ?? line.match(PATTERNS.looseFooter);
+  if (!match) {
+    return undefined;
+  }
+  return { token: match[1], separator: match[2] as Footer['separator'], value: match[3] };
+}
+
+/**
+ * Splits a commit message into header, body and footers.
+ *
+ * Footers are read from the last paragraph, when its first line is a footer
+ * (or a breaking change footer in the wrong case). Lines in that paragraph
+ * that do not start a new footer continue the value of the previous one.
+ */
+export function parseCommitMessage(message: string): CommitMessage {
+  const lines = message.replace(/\r\n?/g, '\n').replace(/\s+$/, '').split('\n');
+  const header = lines[0];
+  const rest = lines.slice(1);
+
+  // Find the start of the last paragraph
+  let footerStart = rest.length;
+  for (let i = rest.length - 1; i >= 0; i--) {
+    if (rest[i].trim() === '') {
+      break;
+    }
+    footerStart = i;
+  }
+
+  // The last paragraph holds footers only if it starts with one
+  const firstFooterLine = rest[footerStart] ?? '';
+  const firstToken = firstFooterLine.match(PATTERNS.looseFooter)?.[1] ?? '';
+  if (!PATTERNS.footer.test(firstFooterLine) && !PATTERNS.breakingChangeToken.test(firstToken)) {
+    footerStart = rest.length;
+  }
+
+  const footers: Footer[] = [];
+  for (const line of rest.slice(footerStart)) {
+    const footer = parseFooterLine(line);
+    if (footer) {
+      footers.push(footer);
+    } else {
+      footers[footers.length - 1].value += `\n${line}`;
+    }
+  }
+
+  const body = rest.slice(0, footerStart).join('\n').trim();
+
+  return {
+    header,
+    body: body.length > 0 ? body : undefined,
+    footers,
+    hasBlankLineAfterHeader: rest.length === 0 || rest[0].trim() === '',
+    isBreakingChange: footers.some(isBreakingChangeFooter),
+  };
+}
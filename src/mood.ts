@@ -0,0 +1,121 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Base forms of the verbs commonly used in commit descriptions
+ */
+export const IMPERATIVE_VERBS: readonly string[] = [
+  'access', 'adapt', 'add', 'address', 'adjust', 'align', 'allow', 'annotate', 'append', 'apply',
+  'archive', 'assert', 'assign', 'avoid', 'backport', 'batch', 'bind', 'block', 'break', 'bring',
+  'build', 'bump', 'bypass', 'cache', 'calculate', 'call', 'cancel', 'capture', 'change', 'check',
+  'clarify', 'clean', 'cleanup', 'clear', 'close', 'collect', 'combine', 'comment', 'commit', 'compare',
+  'compile', 'complete', 'compress', 'compute', 'configure', 'connect', 'consolidate', 'convert', 'copy', 'correct',
+  'create', 'decouple', 'decrease', 'deduplicate', 'default', 'defer', 'define', 'delete', 'deploy', 'deprecate',
+  'describe', 'detect', 'disable', 'discard', 'display', 'document', 'downgrade', 'drop', 'dump', 'duplicate',
+  'edit', 'embed', 'emit', 'enable', 'encode', 'enforce', 'enhance', 'ensure', 'escape', 'evaluate',
+  'exclude', 'execute', 'expand', 'expose', 'export', 'extend', 'extract', 'fail', 'fetch', 'filter',
+  'finish', 'fix', 'flush', 'focus', 'fold', 'force', 'format', 'forward', 'free', 'generate',
+  'get', 'guard', 'handle', 'harden', 'hide', 'highlight', 'ignore', 'implement', 'import', 'improve',
+  'include', 'increase', 'index', 'initialize', 'inline', 'insert', 'inspect', 'install', 'integrate', 'introduce',
+  'invalidate', 'invoke', 'isolate', 'keep', 'label', 'launch', 'limit', 'link', 'lint', 'list',
+  'load', 'lock', 'log', 'lower', 'maintain', 'make', 'manage', 'map', 'mark', 'match',
+  'merge', 'migrate', 'minimize', 'mock', 'modify', 'monitor', 'mount', 'move', 'normalize', 'note',
+  'notify', 'omit', 'open', 'optimize', 'order', 'output', 'override', 'parallelize', 'parse', 'pass',
+  'patch', 'pin', 'polish', 'populate', 'port', 'prefer', 'prepare', 'preserve', 'prevent', 'print',
+  'process', 'propagate', 'protect', 'provide', 'prune', 'publish', 'pull', 'push', 'put', 'query',
+  'raise', 'read', 'rebuild', 'record', 'recover', 'reduce', 'refactor', 'refine', 'reformat', 'refresh',
+  'register', 'reject', 'release', 'reload', 'remove', 'rename', 'reorder', 'reorganize', 'repair', 'replace',
+  'report', 'request', 'require', 'reset', 'resolve', 'restore', 'restrict', 'restructure', 'retry', 'return',
+  'reuse', 'revert', 'review', 'revise', 'rewrite', 'rework', 'run', 'sanitize', 'save', 'scan',
+  'schedule', 'select', 'send', 'separate', 'serialize', 'set', 'setup', 'share', 'shorten', 'show',
+  'simplify', 'skip', 'sort', 'specify', 'speed', 'split', 'stabilize', 'start', 'stop', 'store',
+  'streamline', 'strip', 'support', 'suppress', 'switch', 'sync', 'test', 'tidy', 'track', 'transform',
+  'translate', 'trim', 'truncate', 'tune', 'tweak', 'unify', 'unlock', 'update', 'upgrade', 'upload',
+  'use', 'validate', 'verify', 'warn', 'watch', 'wrap', 'write',
+];
+
+/**
+ * Words that end like an inflected verb but are never reported: base forms such as
+ * "address" and "process", and participles used as adjectives, as in "breaking change"
+ */
+export const NOT_INFLECTED: readonly string[] = [
+  'access', 'address', 'bypass', 'compress', 'embed', 'focus', 'need', 'process', 'progress', 'speed',
+  'breaking', 'existing', 'incoming', 'leading', 'missing', 'outgoing', 'pending', 'remaining', 'trailing',
+];
+
+/**
+ * Irregular past forms and participles, mapped to their base form
+ */
+export const IRREGULAR_FORMS: Readonly<Record<string, string>> = {
+  bound: 'bind', broke: 'break', broken: 'break', brought: 'bring', built: 'build',
+  did: 'do', does: 'do', done: 'do', got: 'get', gotten: 'get',
+  hid: 'hide', hidden: 'hide', kept: 'keep', made: 'make', ran: 'run',
+  rebuilt: 'rebuild', rewrote: 'rewrite', rewritten: 'rewrite', sent: 'send', shown: 'show',
+  wrote: 'write', written: 'write',
+};
+
+/**
+ * Returns the candidate base forms of a word, most likely first
+ */
+function baseCandidates(word: string): string[] {
+  const candidates: string[] = [];
+  const undouble = (stem: string) => (/([^aeiou])\1$/.test(stem) ? [stem.slice(0, -1)] : []);
+
+  if (word.endsWith('ing')) {
+    // adding → add, moving → move, running → run
+    const stem = word.slice(0, -3);
+    candidates.push(stem, `${stem}e`, ...undouble(stem));
+  } else if (word.endsWith('ied') || word.endsWith('ies')) {
+    // applied, applies → apply
+    candidates.push(`${word.slice(0, -3)}y`);
+  } else if (word.endsWith('ed')) {
+    // moved → move, added → add, dropped → drop
+    const stem = word.slice(0, -2);
+    candidates.push(word.slice(0, -1), stem, ...undouble(stem));
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    // updates → update, fixes → fix
+    candidates.push(word.slice(0, -1));
+    if (word.endsWith('es')) {
+      candidates.push(word.slice(0, -2));
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Returns whether an inflected verb form can also be read as a noun: third person forms look
+ * like plurals ("tests") and gerunds like nouns ("logging"), while past forms are always verbs
+ */
+export function isAmbiguousForm(word: string): boolean {
+  const lower = word.toLowerCase();
+  return !Object.prototype.hasOwnProperty.call(IRREGULAR_FORMS, lower) && /(s|ing)$/.test(lower);
+}
+
+/**
+ * Returns the imperative form of a word that is a past, third person or gerund form
+ * of a known verb, and undefined for base forms and words that are not known verbs.
+ * Extra verbs are added to the bundled list.
+ */
+export function getImperative(word: string, extraVerbs: readonly string[] = []): string | undefined {
+  const lower = word.toLowerCase();
+  const isVerb = (candidate: string) => IMPERATIVE_VERBS.includes(candidate) || extraVerbs.includes(candidate);
+
+  if (isVerb(lower) || NOT_INFLECTED.includes(lower)) {
+    return undefined;
+  }
+  if (Object.prototype.hasOwnProperty.call(IRREGULAR_FORMS, lower)) {
+    return IRREGULAR_FORMS[lower];
+  }
+  return baseCandidates(lower).find(isVerb);
+}
@@ -0,0 +1,52 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { FixResult, ResultJSON, ValidationResult } from './types';
+
+/**
+ * Converts a validation result to the JSON schema used by the action outputs and the CLI
+ */
+export function toResultJSON(result: ValidationResult, fix?: FixResult): ResultJSON {
+  const components = result.components;
+  return {
+    valid: result.isValid,
+    emoji: components?.emoji,
+    type: components?.type,
+    scope: components?.scope,
+    ticket: components?.ticket,
+    breaking: components?.isBreakingChange ?? false,
+    description: components?.description.trim(),
+    spans: components?.spans,
+    errors: result.errors,
+    warnings: result.warnings,
+    suggestedTitle: fix?.title,
+  };
+}
+
+/**
+ * Flattens a result into string action outputs; missing components become empty strings
+ */
+export function toActionOutputs(result: ValidationResult, fix?: FixResult): Record<string, string> {
+  const json = toResultJSON(result, fix);
+  return {
+    valid: String(json.valid),
+    emoji: json.emoji ?? '',
+    type: json.type ?? '',
+    scope: json.scope ?? '',
+    breaking: String(json.breaking),
+    description: json.description ?? '',
+    result: JSON.stringify(json),
+    suggested_title: json.suggestedTitle ?? '',
+  };
+}
@@ -0,0 +1,317 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { formatMessage, getCatalog } from './i18n';
+import {
+  CommitResult,
+  FixResult,
+  Language,
+  MessageParams,
+  ReportKey,
+  ResolvedOptions,
+  ValidationError,
+  ValidationResult,
+} from './types';
+import { getDisplayWidth } from './unicode';
+
+/**
+ * Everything needed to render the outcome of validating one title
+ */
+export interface RenderInput {
+  title: string;
+  result: ValidationResult;
+  fix?: FixResult;
+  options: ResolvedOptions;
+}
+
+/**
+ * An error or warning to report as a workflow annotation
+ */
+export interface Annotation {
+  level: 'error' | 'warning';
+  title: string;
+  message: string;
+}
+
+/**
+ * Titles shown as valid examples
+ */
+export const VALID_EXAMPLES = [
+  'feat: add user authentication',
+  'fix(api): resolve timeout issue',
+  'docs(readme): update installation steps',
+  'feat(api)!: breaking change in API',
+] as const;
+
+/**
+ * Returns the report text of a language, with its placeholders filled
+ */
+function translator(language: Language = 'en'): (key: ReportKey, params?: MessageParams) => string {
+  const { report } = getCatalog(language);
+  return (key, params) => formatMessage(report[key], params);
+}
+
+const FORMAT = '<type>[optional scope][optional !]: <description>';
+
+/**
+ * Describes the expected format with the configured types, scopes and length; a custom title
+ * pattern is described by the pattern alone
+ */
+function formatRequirements(options: ResolvedOptions): string[] {
+  if (options.titlePattern) {
+    return [`/${options.titlePattern.source}/`];
+  }
+  const t = translator(options.language);
+  return [
+    FORMAT,
+    '',
+    `• ${t('requirementType', { types: options.allowedTypes.join(', ') })}`,
+    options.allowedScopes
+      ? `• ${t('requirementScopeList', { scopes: options.allowedScopes.join(', ') })}`
+      : `• ${t('requirementScope')}`,
+    `• ${t('requirementBreaking')}`,
+    `• ${t('requirementDescription', { maxLength: options.maxDescriptionLength })}`,
+  ];
+}
+
+/**
+ * Strict mode rules, listed when strict mode is enabled
+ */
+function strictRules(language: Language): string[] {
+  const t = translator(language);
+  return [`• ${t('strictLowercase')}`, `• ${t('strictPeriod')}`, `• ${t('strictImperative')}`];
+}
+
+/**
+ * Formats issues as a numbered plain text list with examples
+ */
+function textIssues(issues: ValidationError[], language: Language): string[] {
+  const t = translator(language);
+  const lines: string[] = [];
+  issues.forEach((issue, index) => {
+    lines.push(`${index + 1}. ${issue.message}`);
+    if (issue.example) {
+      lines.push(`   ${t('example', { example: issue.example })}`);
+    }
+    lines.push('');
+  });
+  return lines;
+}
+
+/**
+ * Renders the title with a line of carets under the span of each issue, followed by its message,
+ * like a compiler diagnostic. Columns are display columns, so wide characters keep the carets aligned.
+ * Issues without a span are left out; an empty span gets a single caret.
+ */
+export function renderDiagnostics(title: string, issues: ValidationError[]): string {
+  const lines: string[] = [];
+  for (const { span, message } of issues) {
+    if (span) {
+      const column = getDisplayWidth(title.substring(0, span.start));
+      const width = Math.max(1, getDisplayWidth(title.substring(span.start, span.end)));
+      lines.push(`   ${' '.repeat(column)}${'^'.repeat(width)} ${message}`);
+    }
+  }
+  return lines.length > 0 ? [`   ${title}`, ...lines].join('\n') : '';
+}
+
+/**
+ * Renders the result as plain text for logs and the terminal
+ */
+export function renderText({ title, result, fix, options }: RenderInput): string {
+  const language = options.language;
+  const t = translator(language);
+  const lines: string[] = [];
+
+  const diagnostics = renderDiagnostics(title, [...result.errors, ...result.warnings]);
+
+  if (result.isValid) {
+    lines.push(t(options.titlePattern ? 'titleValidPattern' : 'titleValid', { title }));
+    if (diagnostics) {
+      lines.push('', diagnostics);
+    }
+    if (result.warnings.length > 0) {
+      lines.push('', t('warnings'), '', ...textIssues(result.warnings, language));
+    }
+    if (fix) {
+      lines.push(t('suggestedTitle', { title: fix.title }));
+    }
+    return lines.join('\n').trimEnd();
+  }
+
+  lines.push(t(options.titlePattern ? 'titleInvalidPattern' : 'titleInvalid', { title }), '');
+  if (diagnostics) {
+    lines.push(diagnostics, '');
+  }
+  lines.push(
+    t('foundIssues'),
+    '',
+    ...textIssues(result.errors, language),
+  );
+
+  if (result.warnings.length > 0) {
+    lines.push(t('warnings'), '', ...textIssues(result.warnings, language));
+  }
+
+  if (fix) {
+    lines.push(t('suggestedTitle', { title: fix.title }), '');
+  }
+
+  lines.push('', t('formatRequirements'), '');
+  lines.push(...formatRequirements(options).map((line) => (line ? `   ${line}` : line)));
+
+  if (options.strict) {
+    lines.push('', t('strictEnabled'), ...strictRules(language).map((line) => `   ${line}`));
+  }
+
+  // The examples and the specification link only apply to Conventional Commits titles
+  if (!options.titlePattern) {
+    lines.push('', t('validExamples'), ...VALID_EXAMPLES.map((example) => `   • ${example}`));
+    lines.push('', t('learnMore'));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders the result of every commit as plain text, with the errors of invalid commits
+ */
+export function renderCommitsText(commits: CommitResult[], language: Language = 'en'): string {
+  const t = translator(language);
+  const lines: string[] = [];
+  const failed = commits.filter((commit) => commit.result && !commit.result.isValid);
+
+  lines.push(failed.length > 0
+    ? t('commitsInvalid', { count: failed.length })
+    : t('commitsChecked', { count: commits.length }));
+  lines.push('');
+
+  for (const commit of commits) {
+    const sha = commit.sha.substring(0, 7);
+    if (!commit.result) {
+      lines.push(`⏭️  ${sha} ${commit.header} (${t('commitSkipped', { reason: commit.skipped ?? '' })})`);
+    } else if (commit.result.isValid) {
+      lines.push(`✅ ${sha} ${commit.header}`);
+    } else {
+      lines.push(`❌ ${sha} "${commit.header}"`);
+      commit.result.errors.forEach((error) => lines.push(`   • ${error.message}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Wraps text in inline code, using a longer fence when the text contains backticks
+ */
+function inlineCode(text: string): string {
+  return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+/**
+ * Escapes text for use in a Markdown table cell
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Renders the result as Markdown for the job summary and the PR comment
+ */
+export function renderMarkdown({ title, result, fix, options }: RenderInput): string {
+  const t = translator(options.language);
+  const pattern = options.titlePattern !== undefined;
+  const lines = [
+    result.isValid
+      ? t(pattern ? 'summaryValidPattern' : 'summaryValid')
+      : t(pattern ? 'summaryInvalidPattern' : 'summaryInvalid'),
+    '',
+    t('summaryTitle', { title: inlineCode(title) }),
+  ];
+
+  // Parsed components
+  const components = result.components;
+  if (components) {
+    lines.push(
+      '',
+      `| ${t('component')} | ${t('value')} |`,
+      '|-----------|-------|',
+      `| ${t('type')} | ${tableCell(inlineCode(components.type))} |`,
+      `| ${t('scope')} | ${components.scope !== undefined ? tableCell(inlineCode(components.scope)) : '—'} |`,
+      `| ${t('breakingChange')} | ${components.isBreakingChange ? t('yes') : t('no')} |`,
+      `| ${t('description')} | ${tableCell(components.description.trim() || '—')} |`,
+    );
+  }
+
+  // Errors and warnings
+  const issues = [...result.errors, ...result.warnings];
+  if (issues.length > 0) {
+    lines.push(
+      '',
+      `| ${t('severity')} | ${t('code')} | ${t('message')} | ${t('exampleColumn')} |`,
+      '|----------|------|---------|---------|',
+      ...issues.map((issue) => [
+        '',
+        issue.severity === 'error' ? `❌ ${t('error')}` : `⚠️ ${t('warning')}`,
+        inlineCode(issue.code),
+        tableCell(issue.message),
+        issue.example ? tableCell(inlineCode(issue.example)) : '',
+        '',
+      ].join(' | ').trim()),
+    );
+  }
+
+  if (fix) {
+    lines.push('', t('summarySuggestedTitle', { title: inlineCode(fix.title) }));
+  }
+
+  if (!result.isValid) {
+    const requirements = formatRequirements(options);
+    lines.push(
+      '',
+      '<details>',
+      `<summary>${t('summaryDetails')}</summary>`,
+      '',
+      '```',
+      requirements[0],
+      '```',
+      '',
+      ...requirements.slice(2).map((line) => line.replace(/^• /, '- ')),
+      ...(options.strict ? strictRules(options.language).map((line) => line.replace(/^• /, '- ')) : []),
+      '',
+      ...(pattern ? [] : [...VALID_EXAMPLES.map((example) => `- ${inlineCode(example)}`), '']),
+      '</details>',
+    );
+    if (!pattern) {
+      lines.push('', t('learnMore'));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts errors and warnings to workflow annotations
+ */
+export function renderAnnotations(result?: ValidationResult, language: Language = 'en'): Annotation[] {
+  if (!result) {
+    return [];
+  }
+  const t = translator(language);
+  return [...result.errors, ...result.warnings].map((issue) => ({
+    level: issue.severity,
+    title: t('annotationTitle', { code: issue.code }),
+    message: issue.example ? `${issue.message}\n${t('example', { example: issue.example })}` : issue.message,
+  }));
+}
@@ -12,6 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { ErrorCode, Severity } from './types';
+
 /**
  * Allowed commit types according to Conventional Commits specification
  */
@@ -59,6 +61,12 @@ export const PATTERNS = {
   // Non-ASCII characters
   nonAscii: /[^\x20-\x7E]/,
 
+  // Control characters, which are not allowed in Unicode mode either
+  control: /\p{Cc}+/u,
+
+  // Full-width colon (as typed by Chinese and Japanese input methods) after the type, scope and marker
+  fullWidthColon: /^[a-zA-Z]+(\([^)]*\))?!?\s*：/,
+
   // Uppercase letters (for strict mode)
   uppercase: /[A-Z]/,
 
@@ -68,14 +76,55 @@ export const PATTERNS = {
   // Description ends with period (forbidden in strict mode)
   endsWithPeriod: /\.$/,
 
+  // Unicode mode: description starts with an uppercase letter, or ends with a period or ideographic full stop
+  descriptionStartsUppercase: /^\p{Lu}/u,
+  endsWithFullStop: /[.。]$/,
+
   // Leading or trailing spaces in description
   leadingSpace: /^: {2,}/,
   trailingSpace: / $/,
 
-  // Common imperative verb patterns (for suggestions)
-  imperativeVerbs: /^(add|update|remove|delete|fix|create|implement|refactor|optimize|improve|enhance|change|move|rename|extract|merge|split|document|test|bump|upgrade|downgrade|revert|release)/i,
+  // Footer line: token followed by ": " or " #" (BREAKING CHANGE is the only token with a space)
+  footer: /^(BREAKING CHANGE|[\w-]+)(: | #)(.*)$/,
+
+  // Anything that looks like a footer line, including tokens with spaces
+  looseFooter: /^([A-Za-z][\w -]*?)(: | #)(.*)$/,
+
+  // Breaking change footer token in any case (must be uppercase)
+  breakingChangeToken: /^BREAKING[ -]CHANGE$/i,
+
+  // Title of a revert created by GitHub or `git revert`: Revert "<title>"
+  githubRevert: /^Revert "(.+)"$/,
+
+  // Reference to the reverted change in the body of a revert: a commit SHA or a PR number
+  revertReference: /\b[0-9a-f]{7,40}\b|#\d+/,
 } as const;
 
+/**
+ * Named groups a custom title pattern may capture; the description is required
+ */
+export const TITLE_PATTERN_GROUPS: readonly string[] = ['type', 'scope', 'ticket', 'breaking', 'description'];
+
+/**
+ * Default format of a ticket reference: a Jira key such as GEMINI-123, or a GitHub issue such as #123
+ */
+export const TICKET_PATTERN = /[A-Z][A-Z0-9]+-\d+|#\d+/;
+
+/**
+ * Common misspellings of allowed types, used to suggest a fix
+ */
+export const TYPE_ALIASES: Readonly<Record<string, string>> = {
+  feature: 'feat',
+  features: 'feat',
+  bugfix: 'fix',
+  hotfix: 'fix',
+  doc: 'docs',
+  documentation: 'docs',
+  tests: 'test',
+  performance: 'perf',
+  refactoring: 'refactor',
+};
+
 /**
  * Error codes for different validation failures
  */
@@ -85,10 +134,12 @@ export const ERROR_CODES = {
   TYPE_NOT_LOWERCASE: 'TYPE_NOT_LOWERCASE',
   EMPTY_SCOPE: 'EMPTY_SCOPE',
   INVALID_SCOPE_FORMAT: 'INVALID_SCOPE_FORMAT',
+  INVALID_SCOPE: 'INVALID_SCOPE',
   SCOPE_NOT_LOWERCASE: 'SCOPE_NOT_LOWERCASE',
   INVALID_BREAKING_CHANGE_POSITION: 'INVALID_BREAKING_CHANGE_POSITION',
   MISSING_DESCRIPTION: 'MISSING_DESCRIPTION',
   DESCRIPTION_TOO_LONG: 'DESCRIPTION_TOO_LONG',
+  HEADER_TOO_LONG: 'HEADER_TOO_LONG',
   DESCRIPTION_NOT_LOWERCASE: 'DESCRIPTION_NOT_LOWERCASE',
   DESCRIPTION_ENDS_WITH_PERIOD: 'DESCRIPTION_ENDS_WITH_PERIOD',
   DESCRIPTION_HAS_LEADING_SPACE: 'DESCRIPTION_HAS_LEADING_SPACE',
@@ -96,51 +147,33 @@ export const ERROR_CODES = {
   MISSING_SPACE_AFTER_COLON: 'MISSING_SPACE_AFTER_COLON',
   MULTIPLE_SPACES_AFTER_COLON: 'MULTIPLE_SPACES_AFTER_COLON',
   NON_ASCII_CHARACTERS: 'NON_ASCII_CHARACTERS',
+  FULLWIDTH_COLON: 'FULLWIDTH_COLON',
   NON_IMPERATIVE_MOOD: 'NON_IMPERATIVE_MOOD',
+  POSSIBLE_NON_IMPERATIVE_MOOD: 'POSSIBLE_NON_IMPERATIVE_MOOD',
+  MISSING_BLANK_LINE_AFTER_HEADER: 'MISSING_BLANK_LINE_AFTER_HEADER',
+  INVALID_FOOTER_TOKEN: 'INVALID_FOOTER_TOKEN',
+  SCOPE_MISMATCH: 'SCOPE_MISMATCH',
+  MISSING_SCOPE: 'MISSING_SCOPE',
+  MISSING_TICKET_REFERENCE: 'MISSING_TICKET_REFERENCE',
+  MISSING_REVERT_REFERENCE: 'MISSING_REVERT_REFERENCE',
+  EMOJI_TYPE_MISMATCH: 'EMOJI_TYPE_MISMATCH',
 } as const;
 
 /**
- * Error messages for validation failures
+ * Error codes that are reported only in strict mode, unless a severity is configured
  */
-export const ERROR_MESSAGES = {
-  [ERROR_CODES.INVALID_FORMAT]: 'Title format is incorrect. Expected format: <type>[optional scope][optional !]: <description>',
-  [ERROR_CODES.INVALID_TYPE]: `Type must be one of: ${ALLOWED_TYPES.join(', ')}`,
-  [ERROR_CODES.TYPE_NOT_LOWERCASE]: 'Type must be lowercase',
-  [ERROR_CODES.EMPTY_SCOPE]: 'Scope cannot be empty. Either provide a scope or omit the parentheses',
-  [ERROR_CODES.INVALID_SCOPE_FORMAT]: 'Scope format is incorrect. Scope should only contain lowercase letters, numbers, hyphens, and underscores',
-  [ERROR_CODES.SCOPE_NOT_LOWERCASE]: 'Scope must be lowercase (strict mode)',
-  [ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION]: 'Breaking change marker (!) must be placed after the scope (or type if no scope) and before the colon',
-  [ERROR_CODES.MISSING_DESCRIPTION]: 'Description is required after the colon and space',
-  [ERROR_CODES.DESCRIPTION_TOO_LONG]: `Description must not exceed ${MAX_DESCRIPTION_LENGTH} characters`,
-  [ERROR_CODES.DESCRIPTION_NOT_LOWERCASE]: 'Description must start with a lowercase letter (strict mode)',
-  [ERROR_CODES.DESCRIPTION_ENDS_WITH_PERIOD]: 'Description must not end with a period (strict mode)',
-  [ERROR_CODES.DESCRIPTION_HAS_LEADING_SPACE]: 'Description must not start with a space',
-  [ERROR_CODES.DESCRIPTION_HAS_TRAILING_SPACE]: 'Description must not end with a space',
-  [ERROR_CODES.MISSING_SPACE_AFTER_COLON]: 'There must be exactly one space after the colon',
-  [ERROR_CODES.MULTIPLE_SPACES_AFTER_COLON]: 'There must be exactly one space after the colon, not multiple spaces',
-  [ERROR_CODES.NON_ASCII_CHARACTERS]: 'Title must only contain displayable ASCII characters (range: 32-126)',
-  [ERROR_CODES.NON_IMPERATIVE_MOOD]: 'Description should use imperative mood (e.g., "add" not "added" or "adds")',
-} as const;
+export const STRICT_ERROR_CODES: readonly ErrorCode[] = [
+  'SCOPE_NOT_LOWERCASE',
+  'DESCRIPTION_NOT_LOWERCASE',
+  'DESCRIPTION_ENDS_WITH_PERIOD',
+  'NON_IMPERATIVE_MOOD',
+  'POSSIBLE_NON_IMPERATIVE_MOOD',
+];
 
 /**
- * Examples of correct titles for each error type
+ * Default severities of rules that do not fail the check by default
  */
-export const ERROR_EXAMPLES = {
-  [ERROR_CODES.INVALID_FORMAT]: 'feat(auth): add user login',
-  [ERROR_CODES.INVALID_TYPE]: 'feat: add new feature',
-  [ERROR_CODES.TYPE_NOT_LOWERCASE]: 'feat: add new feature',
-  [ERROR_CODES.EMPTY_SCOPE]: 'feat(auth): add user login',
-  [ERROR_CODES.INVALID_SCOPE_FORMAT]: 'feat(user-auth): add login',
-  [ERROR_CODES.SCOPE_NOT_LOWERCASE]: 'feat(auth): add user login',
-  [ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION]: 'feat(api)!: breaking change',
-  [ERROR_CODES.MISSING_DESCRIPTION]: 'feat: add new feature',
-  [ERROR_CODES.DESCRIPTION_TOO_LONG]: 'feat: add user authentication',
-  [ERROR_CODES.DESCRIPTION_NOT_LOWERCASE]: 'feat: add user authentication',
-  [ERROR_CODES.DESCRIPTION_ENDS_WITH_PERIOD]: 'feat: add user authentication',
-  [ERROR_CODES.DESCRIPTION_HAS_LEADING_SPACE]: 'feat: add user authentication',
-  [ERROR_CODES.DESCRIPTION_HAS_TRAILING_SPACE]: 'feat: add user authentication',
-  [ERROR_CODES.MISSING_SPACE_AFTER_COLON]: 'feat: add new feature',
-  [ERROR_CODES.MULTIPLE_SPACES_AFTER_COLON]: 'feat: add new feature',
-  [ERROR_CODES.NON_ASCII_CHARACTERS]: 'feat: add user authentication',
-  [ERROR_CODES.NON_IMPERATIVE_MOOD]: 'feat: add feature (not "added" or "adds")',
-} as const;
+export const DEFAULT_SEVERITIES: Readonly<Partial<Record<ErrorCode, Severity>>> = {
+  MISSING_SCOPE: 'warning',
+  POSSIBLE_NON_IMPERATIVE_MOOD: 'warning',
+};
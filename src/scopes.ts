@@ -0,0 +1,35 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { minimatch } from 'minimatch';
+import { ChangedFilesProvider } from './github';
+
+/**
+ * Returns the scopes whose path globs match at least one of the files, in config order
+ */
+export function inferScopes(files: readonly string[], scopePaths: Readonly<Record<string, readonly string[]>>): string[] {
+  return Object.entries(scopePaths)
+    .filter(([, globs]) => files.some((file) => globs.some((glob) => minimatch(file, glob, { dot: true }))))
+    .map(([scope]) => scope);
+}
+
+/**
+ * Lists the changed files and returns the scopes they belong to
+ */
+export async function getChangedScopes(
+  provider: ChangedFilesProvider,
+  scopePaths: Readonly<Record<string, readonly string[]>>,
+): Promise<string[]> {
+  return inferScopes(await provider.listChangedFiles(), scopePaths);
+}
@@ -0,0 +1,55 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { SkipRules, SkipTarget } from './types';
+
+/**
+ * Checks whether an account is a GitHub App or bot account, such as dependabot[bot]
+ */
+export function isBot(login: string, type?: string): boolean {
+  return type === 'Bot' || login.endsWith('[bot]');
+}
+
+/**
+ * Returns why the check should be skipped, or undefined when the title must be checked.
+ * Logins and labels are compared case-insensitively, like on GitHub.
+ */
+export function getSkipReason(target: SkipTarget, rules: SkipRules): string | undefined {
+  const author = target.author;
+  if (author) {
+    if (rules.authors.some((ignored) => ignored.toLowerCase() === author.toLowerCase())) {
+      return `author "${author}" is ignored`;
+    }
+    if (rules.bots && isBot(author, target.authorType)) {
+      return `author "${author}" is a bot`;
+    }
+  }
+
+  const label = target.labels?.find((name) =>
+    rules.labels.some((ignored) => ignored.toLowerCase() === name.toLowerCase()));
+  if (label !== undefined) {
+    return `label "${label}" is set`;
+  }
+
+  if (rules.drafts && target.draft) {
+    return 'pull request is a draft';
+  }
+
+  const pattern = rules.patterns.find((regex) => regex.test(target.title));
+  if (pattern) {
+    return `title matches ignore pattern /${pattern.source}/`;
+  }
+
+  return undefined;
+}
@@ -12,31 +12,344 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { ERROR_CODES } from './rules';
+
+/**
+ * Identifier of a validation rule
+ */
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/**
+ * How a rule violation is reported: failing the check, as a warning, or not at all
+ */
+export type Severity = 'error' | 'warning' | 'off';
+
+/**
+ * Semantic version bump required by a change
+ */
+export type Bump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Language of the error messages and reports
+ */
+export type Language = 'en' | 'zh-CN';
+
+/**
+ * Values filled into the {name} placeholders of a message
+ */
+export type MessageParams = Readonly<Record<string, string | number>>;
+
+/**
+ * Keys of the error messages: one per error code, plus the variants some rules report
+ * and the prefix of the issues found in a reverted title
+ */
+export type MessageKey =
+  | ErrorCode
+  | 'NON_ASCII_CHARACTERS_UNICODE'
+  | 'DESCRIPTION_TOO_LONG_UNICODE'
+  | 'MISSING_TICKET_REFERENCE_SCOPE'
+  | 'MISSING_TICKET_REFERENCE_BODY'
+  | 'INVALID_FORMAT_PATTERN'
+  | 'REVERTED_ISSUE';
+
+/**
+ * Keys of the text used by the reports
+ */
+export type ReportKey =
+  | 'titleValid'
+  | 'titleInvalid'
+  | 'titleValidPattern'
+  | 'titleInvalidPattern'
+  | 'foundIssues'
+  | 'warnings'
+  | 'example'
+  | 'suggestedTitle'
+  | 'formatRequirements'
+  | 'requirementType'
+  | 'requirementScopeList'
+  | 'requirementScope'
+  | 'requirementBreaking'
+  | 'requirementDescription'
+  | 'strictEnabled'
+  | 'strictLowercase'
+  | 'strictPeriod'
+  | 'strictImperative'
+  | 'validExamples'
+  | 'learnMore'
+  | 'commitsInvalid'
+  | 'commitsChecked'
+  | 'commitSkipped'
+  | 'summaryValid'
+  | 'summaryInvalid'
+  | 'summaryValidPattern'
+  | 'summaryInvalidPattern'
+  | 'summaryTitle'
+  | 'component'
+  | 'value'
+  | 'type'
+  | 'scope'
+  | 'breakingChange'
+  | 'description'
+  | 'yes'
+  | 'no'
+  | 'severity'
+  | 'code'
+  | 'message'
+  | 'exampleColumn'
+  | 'error'
+  | 'warning'
+  | 'summarySuggestedTitle'
+  | 'summaryDetails'
+  | 'annotationTitle';
+
+/**
+ * Messages, examples and report text of one language. Templates use {name} placeholders.
+ */
+export interface MessageCatalog {
+  messages: Readonly<Record<MessageKey, string>>;
+  examples: Readonly<Record<ErrorCode, string>>;
+  report: Readonly<Record<ReportKey, string>>;
+}
+
 /**
  * Result of validating a commit title
  */
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
+  warnings: ValidationError[];
+  components?: TitleComponents;
+  changedScopes?: string[];
+}
+
+/**
+ * A part of the title, as UTF-16 offsets: start is inclusive, end exclusive.
+ * An empty span (start === end) points between two characters.
+ */
+export interface Span {
+  start: number;
+  end: number;
 }
 
 /**
- * A single validation error
+ * A single validation error. The span is the part of the title the error is about;
+ * errors about the whole title or the body have none.
  */
 export interface ValidationError {
   code: string;
   message: string;
   example?: string;
+  severity: Exclude<Severity, 'off'>;
+  span?: Span;
+}
+
+/**
+ * JSON schema of a validation result, shared by the action outputs and the CLI
+ */
+export interface ResultJSON {
+  valid: boolean;
+  emoji?: string;
+  type?: string;
+  scope?: string;
+  ticket?: string;
+  breaking: boolean;
+  description?: string;
+  spans?: ComponentSpans;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+  suggestedTitle?: string;
 }
 
 /**
- * Parsed components of a conventional commit title
+ * Corrected title proposed by the fixer
+ */
+export interface FixResult {
+  title: string;
+  fixed: string[];
+  isValid: boolean;
+}
+
+/**
+ * The title of the change a revert undoes, and where it starts in the revert title.
+ * A GitHub revert is `Revert "<title>"`; a conventional one is `revert: <title>`.
+ */
+export interface RevertedTitle {
+  title: string;
+  offset: number;
+  github: boolean;
+}
+
+/**
+ * Parsed components of a conventional commit title. With a custom title pattern, the
+ * type is empty when the pattern has no type group.
  */
 export interface TitleComponents {
+  emoji?: string;
   type: string;
   scope?: string;
+  ticket?: string;
   isBreakingChange: boolean;
   description: string;
+  spans?: ComponentSpans;
+}
+
+/**
+ * Where each component is in the title. The scope span excludes the parentheses,
+ * and the description span includes the spaces after the colon. A title parsed with
+ * a custom title pattern has the spans of the groups it matched, and no colon.
+ */
+export interface ComponentSpans {
+  emoji?: Span;
+  type?: Span;
+  scope?: Span;
+  ticket?: Span;
+  breaking?: Span;
+  colon?: Span;
+  description: Span;
+}
+
+/**
+ * A `Token: value` or `Token #value` trailer of a commit message
+ */
+export interface Footer {
+  token: string;
+  separator: ': ' | ' #';
+  value: string;
+}
+
+/**
+ * A commit message split into header, body and footers
+ */
+export interface CommitMessage {
+  header: string;
+  body?: string;
+  footers: Footer[];
+  hasBlankLineAfterHeader: boolean;
+  isBreakingChange: boolean;
+}
+
+/**
+ * A commit to validate
+ */
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  parentCount?: number;
+}
+
+/**
+ * Validation result of a single commit header
+ */
+export interface CommitResult {
+  sha: string;
+  header: string;
+  result?: ValidationResult;
+  skipped?: string;
+}
+
+/**
+ * Rules for skipping the check entirely
+ */
+export interface SkipRules {
+  authors: readonly string[];
+  bots: boolean;
+  labels: readonly string[];
+  drafts: boolean;
+  patterns: readonly RegExp[];
+}
+
+/**
+ * What the skip rules are matched against: the PR, or the push and its first commit
+ */
+export interface SkipTarget {
+  title: string;
+  author?: string;
+  authorType?: string;
+  labels?: readonly string[];
+  draft?: boolean;
+}
+
+/**
+ * What the action checks for the triggering event: the title, the full message for body
+ * checking, the PR number when the event belongs to a PR, the pushed commits, and the skip target
+ */
+export interface EventSubject {
+  title: string;
+  message: string;
+  pullRequest?: number;
+  commits?: CommitInfo[];
+  skip: SkipTarget;
+}
+
+/**
+ * Labels applied to the PR from the parsed title
+ */
+export interface LabelRules {
+  enabled: boolean;
+  types: Readonly<Record<string, string>>;
+  breaking: string;
+  scope: string;
+}
+
+/**
+ * Sections of the generated changelog
+ */
+export interface ChangelogOptions {
+  sections: Readonly<Record<string, string>>;
+  hidden: readonly string[];
+}
+
+/**
+ * Where a ticket reference must appear: at the end of the title, as the scope, or in the body
+ */
+export type TicketLocation = 'suffix' | 'scope' | 'body';
+
+/**
+ * Requirement for an issue or ticket reference
+ */
+export interface TicketOptions {
+  location: TicketLocation;
+  pattern: RegExp;
+  exemptTypes: readonly string[];
+}
+
+/**
+ * Validator options available to rules
+ */
+export interface RuleOptions {
+  strict: boolean;
+  unicode: boolean;
+  language: Language;
+  maxDescriptionLength: number;
+  maxHeaderLength?: number;
+  allowedTypes: readonly string[];
+  allowedScopes?: readonly string[];
+  ticket?: TicketOptions;
+  imperativeVerbs?: readonly string[];
+  revertReference?: boolean;
+  emojiPrefix?: boolean;
+  emojiTypes?: Readonly<Record<string, readonly string[]>>;
+  titlePattern?: RegExp;
+}
+
+/**
+ * What a rule checks: the raw title, its components when it could be parsed, the body
+ * (PR body, or the commit message below the header) when it is known, and the options
+ */
+export interface RuleContext {
+  title: string;
+  components?: TitleComponents;
+  body?: string;
+  options: RuleOptions;
+}
+
+/**
+ * A check run on every title. The severity of the returned errors is the rule's default;
+ * a severity configured for the error code replaces it.
+ */
+export interface Rule {
+  name: string;
+  check(context: RuleContext): ValidationError[];
 }
 
 /**
@@ -44,5 +357,73 @@ export interface TitleComponents {
  */
 export interface ValidatorOptions {
   strict?: boolean;
+  unicode?: boolean;
+  language?: Language;
   maxDescriptionLength?: number;
+  maxHeaderLength?: number;
+  allowedTypes?: readonly string[];
+  allowedScopes?: readonly string[];
+  ticket?: TicketOptions;
+  imperativeVerbs?: readonly string[];
+  revertReference?: boolean;
+  emojiPrefix?: boolean;
+  emojiTypes?: Readonly<Record<string, readonly string[]>>;
+  titlePattern?: RegExp;
+  severity?: Readonly<Partial<Record<string, Severity>>>;
+  rules?: readonly Rule[];
+  disabledRules?: readonly string[];
+}
+
+/**
+ * Validator options after merging action inputs, the config file and defaults
+ */
+export interface ResolvedOptions extends ValidatorOptions {
+  strict: boolean;
+  unicode: boolean;
+  language: Language;
+  maxDescriptionLength: number;
+  allowedTypes: readonly string[];
+  skip: SkipRules;
+  labels: LabelRules;
+  scopePaths?: Readonly<Record<string, readonly string[]>>;
+  bumpTypes: Readonly<Record<string, Bump>>;
+  changelog: ChangelogOptions;
+  configWarnings?: readonly string[];
+}
+
+/**
+ * Contents of the repository config file (.github/pr-title-checker.yml)
+ */
+export interface ConfigFile {
+  strict?: boolean;
+  unicode?: boolean;
+  language?: string;
+  max_description_length?: number;
+  max_header_length?: number;
+  commitlint_config?: string;
+  types?: string[] | string;
+  scopes?: string[] | string;
+  severity?: Record<string, string> | string;
+  disabled_rules?: string[] | string;
+  ticket_location?: string;
+  ticket_pattern?: string;
+  ticket_exempt_types?: string[] | string;
+  imperative_verbs?: string[] | string;
+  revert_reference?: boolean;
+  emoji_prefix?: boolean;
+  emoji_types?: Record<string, string[] | string> | string;
+  title_pattern?: string;
+  ignore_authors?: string[] | string;
+  ignore_bots?: boolean;
+  ignore_labels?: string[] | string;
+  ignore_drafts?: boolean;
+  ignore_patterns?: string[] | string;
+  auto_label?: boolean;
+  type_labels?: Record<string, string> | string;
+  breaking_label?: string;
+  scope_label?: string;
+  scope_paths?: Record<string, string[] | string> | string;
+  bump_types?: Record<string, string> | string;
+  changelog_sections?: Record<string, string> | string;
+  changelog_hidden_types?: string[] | string;
 }
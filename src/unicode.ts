@@ -0,0 +1,65 @@
+// Copyright 2026 openGemini Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Code point ranges shown two columns wide in a terminal: East Asian wide and full-width
+ * characters (CJK ideographs, kana, Hangul, full-width forms). Emoji are found by their properties.
+ */
+const WIDE_RANGES: readonly (readonly [number, number])[] = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x20000, 0x2fffd],
+  [0x30000, 0x3fffd],
+];
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Splits text into grapheme clusters, so that an emoji sequence or a letter
+ * with combining marks is one element
+ */
+export function getGraphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Checks whether a grapheme cluster takes two columns
+ */
+function isWide(grapheme: string): boolean {
+  const codePoint = grapheme.codePointAt(0) ?? 0;
+  if (WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end)) {
+    return true;
+  }
+  // Emoji shown as emoji by default, such as 🚀 and ✨, and text symbols such as ❤ that become
+  // emoji with the U+FE0F variation selector
+  return /\p{Emoji_Presentation}/u.test(grapheme)
+    || (grapheme.includes('\uFE0F') && /\p{Extended_Pictographic}/u.test(grapheme));
+}
+
+/**
+ * Returns the number of terminal columns text takes: one per grapheme cluster,
+ * two for wide characters. For ASCII text this equals its length.
+ */
+export function getDisplayWidth(text: string): number {
+  return getGraphemes(text).reduce((width, grapheme) => width + (isWide(grapheme) ? 2 : 1), 0);
+}
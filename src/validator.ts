@@ -15,264 +15,414 @@
 import {
   ALLOWED_TYPES,
   MAX_DESCRIPTION_LENGTH,
-  PATTERNS,
   ERROR_CODES,
-  ERROR_MESSAGES,
-  ERROR_EXAMPLES,
+  PATTERNS,
+  STRICT_ERROR_CODES,
+  DEFAULT_SEVERITIES,
 } from './rules';
-import { ValidationResult, ValidationError, TitleComponents, ValidatorOptions } from './types';
+import {
+  ComponentSpans,
+  ValidationResult,
+  ValidationError,
+  TitleComponents,
+  ValidatorOptions,
+  ErrorCode,
+  RevertedTitle,
+  Rule,
+  RuleOptions,
+  Severity,
+  Span,
+} from './types';
+import { builtinError, BUILTIN_RULES } from './builtins';
+import { EmojiPrefix, normalizeEmoji, parseEmojiPrefix } from './emoji';
+import { formatMessage, getCatalog } from './i18n';
+import { getCommitBody, isValidFooterToken, parseCommitMessage } from './message';
+
+/**
+ * Moves a span by an offset
+ */
+function shiftSpan(span: Span, offset: number): Span {
+  return { start: span.start + offset, end: span.end + offset };
+}
+
+/**
+ * Adds an emoji prefix to the components of the title that follows it
+ */
+function withEmoji(components: TitleComponents, prefix: EmojiPrefix): TitleComponents {
+  const spans = components.spans;
+  const offset = prefix.length;
+  const shifted: ComponentSpans | undefined = spans && {
+    emoji: { start: 0, end: prefix.emoji.length },
+    type: spans.type && shiftSpan(spans.type, offset),
+    scope: spans.scope && shiftSpan(spans.scope, offset),
+    ticket: spans.ticket && shiftSpan(spans.ticket, offset),
+    breaking: spans.breaking && shiftSpan(spans.breaking, offset),
+    colon: spans.colon && shiftSpan(spans.colon, offset),
+    description: shiftSpan(spans.description, offset),
+  };
+  return { emoji: prefix.emoji, ...components, spans: shifted };
+}
+
+/**
+ * A match with the group indices of the `d` flag, which the es2021 lib does not declare
+ */
+type IndexedMatch = RegExpExecArray & { indices?: { groups?: Record<string, [number, number] | undefined> } };
 
 /**
  * Validator for Conventional Commits titles
  */
 export class ConventionalCommitValidator {
-  private readonly strict: boolean;
-  private readonly maxDescriptionLength: number;
+  private readonly options: RuleOptions;
+  private readonly rules: readonly Rule[];
+  private readonly severities: Record<string, Severity>;
 
   constructor(options: ValidatorOptions = {}) {
-    this.strict = options.strict ?? true;
-    this.maxDescriptionLength = options.maxDescriptionLength ?? MAX_DESCRIPTION_LENGTH;
+    this.options = {
+      strict: options.strict ?? true,
+      unicode: options.unicode ?? false,
+      language: options.language ?? 'en',
+      maxDescriptionLength: options.maxDescriptionLength ?? MAX_DESCRIPTION_LENGTH,
+      maxHeaderLength: options.maxHeaderLength,
+      allowedTypes: options.allowedTypes ?? ALLOWED_TYPES,
+      allowedScopes: options.allowedScopes,
+      ticket: options.ticket,
+      imperativeVerbs: options.imperativeVerbs,
+      revertReference: options.revertReference,
+      emojiPrefix: options.emojiPrefix,
+      emojiTypes: options.emojiTypes,
+      titlePattern: options.titlePattern,
+    };
+
+    // Custom rules run after the built-in rules; any rule can be disabled by name
+    const disabledRules = options.disabledRules ?? [];
+    this.rules = [...BUILTIN_RULES, ...(options.rules ?? [])].filter((rule) => !disabledRules.includes(rule.name));
+
+    // Strict-only rules are off in lenient mode unless a severity is configured
+    this.severities = {};
+    for (const code of Object.keys(ERROR_CODES) as ErrorCode[]) {
+      const defaultSeverity = !this.options.strict && STRICT_ERROR_CODES.includes(code)
+        ? 'off'
+        : DEFAULT_SEVERITIES[code] ?? 'error';
+      this.severities[code] = defaultSeverity;
+    }
+    for (const [code, severity] of Object.entries(options.severity ?? {})) {
+      if (severity) {
+        this.severities[code] = severity;
+      }
+    }
   }
 
   /**
-   * Validates a commit title against the Conventional Commits specification
+   * Validates a commit title against the Conventional Commits specification.
+   * The body is only used by rules that look beyond the title, such as the ticket reference.
    */
-  public validate(title: string): ValidationResult {
-    const errors: ValidationError[] = [];
-
-    // Check for non-ASCII characters first
-    if (PATTERNS.nonAscii.test(title)) {
-      errors.push(this.createError(ERROR_CODES.NON_ASCII_CHARACTERS));
+  public validate(title: string, body?: string): ValidationResult {
+    // In emoji prefix mode, the title after the emoji is checked as a title of its own
+    const emojiPrefix = this.options.emojiPrefix ? parseEmojiPrefix(title) : undefined;
+    if (emojiPrefix) {
+      return this.validateEmojiTitle(title, emojiPrefix, body);
     }
 
-    // Parse the title into components
-    const components = this.parseTitle(title);
-    if (!components) {
-      errors.push(this.createError(ERROR_CODES.INVALID_FORMAT));
-      return { isValid: false, errors };
+    // A GitHub revert is checked as "revert: <title>", whose prefix has the same length
+    const reverted = this.parseRevert(title);
+    const checkedTitle = reverted?.github ? `revert: ${reverted.title}` : title;
+    const components = this.parseTitle(checkedTitle) ?? undefined;
+    const context = { title: checkedTitle, components, body, options: this.options };
+    let issues = this.rules.flatMap((rule) => rule.check(context));
+
+    // The reverted title is checked with every rule, in place of the description rules
+    if (reverted && components?.spans) {
+      const descriptionStart = components.spans.description.start;
+      issues = [
+        ...issues.filter((issue) => !issue.span || issue.span.start < descriptionStart),
+        ...this.validateReverted(reverted),
+      ];
     }
-
-    // Validate each component
-    const typeErrors = this.validateType(components.type);
-    const scopeErrors = this.validateScope(title, components.scope);
-    const breakingChangeErrors = this.validateBreakingChange(title, components.isBreakingChange);
-    const descriptionErrors = this.validateDescription(title, components.description);
-
-    errors.push(...typeErrors, ...scopeErrors, ...breakingChangeErrors, ...descriptionErrors);
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-    };
+    return this.buildResult(issues, components);
   }
 
   /**
-   * Parses a title into its components
+   * Validates the title after an emoji prefix, and the emoji against the ones configured for the type
    */
-  private parseTitle(title: string): TitleComponents | null {
-    // Extract type (preserve case for validation)
-    const typeMatch = title.match(/^([a-zA-Z]+)/);
-    if (!typeMatch) return null;
-    const type = typeMatch[1];
-
-    // Find colon
-    const colonIndex = title.indexOf(':');
-    if (colonIndex === -1) return null;
-
-    // Extract everything before colon for analysis
-    const beforeColon = title.substring(0, colonIndex);
-
-    // Extract scope (optional, allow empty for validation)
-    const scopeMatch = beforeColon.match(/\(([^)]*)\)/);
-    const scope = scopeMatch ? scopeMatch[1] : undefined;
-
-    // Check for breaking change marker (only before colon)
-    const isBreakingChange = beforeColon.includes('!');
-
-    // Check for space before colon (invalid format: "feat :" or "feat(scope) :")
-    // Build expected prefix (allowing for wrong ! position for later validation)
-    const withoutExclamation = beforeColon.replace(/!/g, '');
-    const expectedWithoutExclamation = type + (scopeMatch ? scopeMatch[0] : '');
-    if (withoutExclamation !== expectedWithoutExclamation) {
-      return null;  // Something unexpected before colon (likely a space)
+  private validateEmojiTitle(title: string, prefix: EmojiPrefix, body?: string): ValidationResult {
+    const rest = title.substring(prefix.length);
+    const result = this.validate(rest, body);
+    const issues = [...result.errors, ...result.warnings].map((issue) =>
+      (issue.span ? { ...issue, span: shiftSpan(issue.span, prefix.length) } : issue));
+    const components = result.components && withEmoji(result.components, prefix);
+
+    const type = components?.type.toLowerCase() ?? '';
+    const emojiTypes = this.options.emojiTypes ?? {};
+    const expected = Object.prototype.hasOwnProperty.call(emojiTypes, type) ? emojiTypes[type] : undefined;
+    if (expected && !expected.map(normalizeEmoji).includes(normalizeEmoji(prefix.emoji))) {
+      issues.push(builtinError(ERROR_CODES.EMOJI_TYPE_MISMATCH, {
+        language: this.options.language,
+        params: { emoji: prefix.emoji, type, emojis: expected.join(' '), expected: expected[0], title: rest },
+        span: { start: 0, end: prefix.emoji.length },
+      }));
     }
-
-    // Extract description (everything after ":" - don't trim to preserve spaces for validation)
-    let description = title.substring(colonIndex + 1);
-
-    return {
-      type,
-      scope,
-      isBreakingChange,
-      description,
-    };
+    return this.buildResult(issues, components);
   }
 
   /**
-   * Validates the type component
+   * Finds the title of the change a revert undoes: the quoted title of a GitHub revert,
+   * or the description of a revert when it is a Conventional Commits title itself
    */
-  private validateType(type: string): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    // Check if type contains uppercase letters
-    if (/[A-Z]/.test(type)) {
-      errors.push(this.createError(ERROR_CODES.TYPE_NOT_LOWERCASE));
+  public parseRevert(title: string): RevertedTitle | undefined {
+    // Reverts are Conventional Commits titles, not titles of a custom title pattern
+    if (this.options.titlePattern) {
+      return undefined;
     }
-
-    // Check if type (lowercased) is in the allowed list
-    if (!ALLOWED_TYPES.includes(type.toLowerCase() as any)) {
-      errors.push(this.createError(ERROR_CODES.INVALID_TYPE));
+    const githubRevert = title.match(PATTERNS.githubRevert);
+    if (githubRevert) {
+      return { title: githubRevert[1], offset: 'Revert "'.length, github: true };
     }
+    const components = this.parseTitle(title);
+    const description = components?.description.trim() ?? '';
+    if (components?.type.toLowerCase() !== 'revert' || !this.parseTitle(description)) {
+      return undefined;
+    }
+    return { title: description, offset: title.lastIndexOf(description), github: false };
+  }
 
-    return errors;
+  /**
+   * Validates a reverted title, reporting its issues with a prefix and at their place in the revert title
+   */
+  private validateReverted(reverted: RevertedTitle): ValidationError[] {
+    const result = this.validate(reverted.title);
+    const template = getCatalog(this.options.language).messages.REVERTED_ISSUE;
+    return [...result.errors, ...result.warnings].map((issue) => ({
+      ...issue,
+      message: formatMessage(template, { message: issue.message }),
+      ...(issue.span && {
+        span: { start: issue.span.start + reverted.offset, end: issue.span.end + reverted.offset },
+      }),
+    }));
   }
 
   /**
-   * Validates the scope component
+   * Validates a full commit message: the header, the blank line before the body and the footer tokens
    */
-  private validateScope(title: string, scope?: string): ValidationError[] {
+  public validateMessage(message: string): ValidationResult {
+    const parsed = parseCommitMessage(message);
+    const headerResult = this.validate(parsed.header, getCommitBody(message));
     const errors: ValidationError[] = [];
 
-    // Check for empty scope
-    if (scope !== undefined && scope.length === 0) {
-      errors.push(this.createError(ERROR_CODES.EMPTY_SCOPE));
-      return errors;
+    // The body (or footers) must start one blank line after the header
+    if (!parsed.hasBlankLineAfterHeader) {
+      errors.push(builtinError(ERROR_CODES.MISSING_BLANK_LINE_AFTER_HEADER, { language: this.options.language }));
     }
 
-    if (scope !== undefined && scope.length > 0) {
-      // In strict mode, check that scope doesn't contain uppercase
-      if (this.strict && /[A-Z]/.test(scope)) {
-        errors.push(this.createError(ERROR_CODES.SCOPE_NOT_LOWERCASE));
-      }
-
-      // Check scope format: only letters, numbers, hyphens, and underscores (case-insensitive for lenient mode)
-      if (this.strict) {
-        if (!/^[a-z0-9_-]+$/.test(scope)) {
-          errors.push(this.createError(ERROR_CODES.INVALID_SCOPE_FORMAT));
-        }
-      } else {
-        if (!/^[a-zA-Z0-9_-]+$/.test(scope)) {
-          errors.push(this.createError(ERROR_CODES.INVALID_SCOPE_FORMAT));
-        }
+    // Footer tokens must use "-" instead of spaces
+    for (const footer of parsed.footers) {
+      if (!isValidFooterToken(footer.token)) {
+        errors.push(builtinError(ERROR_CODES.INVALID_FOOTER_TOKEN, {
+          language: this.options.language,
+          params: { token: footer.token },
+        }));
       }
     }
 
-    return errors;
+    const messageResult = this.buildResult(errors);
+    return {
+      isValid: headerResult.isValid && messageResult.isValid,
+      errors: [...headerResult.errors, ...messageResult.errors],
+      warnings: [...headerResult.warnings, ...messageResult.warnings],
+      components: headerResult.components && {
+        ...headerResult.components,
+        isBreakingChange: headerResult.components.isBreakingChange || parsed.isBreakingChange,
+      },
+    };
   }
 
   /**
-   * Validates the breaking change marker
+   * Checks the scope of a validated title against the scopes of the changed files.
+   * A scope that matches none of them is a mismatch; a missing scope is reported with the candidates.
    */
-  private validateBreakingChange(title: string, isBreakingChange: boolean): ValidationError[] {
+  public validateChangedScopes(result: ValidationResult, changedScopes: readonly string[]): ValidationResult {
+    const components = result.components;
+    if (!components || changedScopes.length === 0) {
+      return result;
+    }
+
     const errors: ValidationError[] = [];
+    const example = `${components.type.toLowerCase()}(${changedScopes[0]}):${components.description}`;
+    if (components.scope === undefined) {
+      errors.push(builtinError(ERROR_CODES.MISSING_SCOPE, {
+        language: this.options.language,
+        params: { scopes: changedScopes.join(', ') },
+        example,
+        span: components.spans?.type && { start: components.spans.type.end, end: components.spans.type.end },
+      }));
+    } else if (components.scope.length > 0 && !changedScopes.includes(components.scope.toLowerCase())) {
+      errors.push(builtinError(ERROR_CODES.SCOPE_MISMATCH, {
+        language: this.options.language,
+        params: { scope: components.scope, scopes: changedScopes.join(', ') },
+        example,
+        span: components.spans?.scope,
+      }));
+    }
 
-    const colonIndex = title.indexOf(':');
-    const exclamationIndex = title.indexOf('!');
+    const scopeResult = this.buildResult(errors);
+    return {
+      isValid: result.isValid && scopeResult.isValid,
+      errors: [...result.errors, ...scopeResult.errors],
+      warnings: [...result.warnings, ...scopeResult.warnings],
+      components,
+      changedScopes: [...changedScopes],
+    };
+  }
 
-    if (isBreakingChange) {
-      // The ! must be before the colon
-      if (exclamationIndex === -1 || exclamationIndex >= colonIndex) {
-        errors.push(this.createError(ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION));
-        return errors;
-      }
+  /**
+   * Parses the header of a full commit message, treating a BREAKING CHANGE footer as equal to "!"
+   */
+  public parseMessageComponents(message: string): TitleComponents | null {
+    const parsed = parseCommitMessage(message);
+    const components = this.parseTitle(parsed.header);
+    if (!components) {
+      return null;
+    }
+    return {
+      ...components,
+      isBreakingChange: components.isBreakingChange || parsed.isBreakingChange,
+    };
+  }
 
-      // Check that ! is in the right position (immediately before colon, after type or scope)
-      // Valid: feat!: or feat(scope)!:
-      // Invalid: fea!t: or feat!(scope): or f!eat:
-      const validBreakingPattern = /^[a-z]+(\([^)]*\))?!:/i;
-      if (!validBreakingPattern.test(title)) {
-        errors.push(this.createError(ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION));
-      }
-    } else {
-      // If no breaking change marker before colon, check if it's in the description (invalid)
-      if (exclamationIndex !== -1 && exclamationIndex > colonIndex) {
-        errors.push(this.createError(ERROR_CODES.INVALID_BREAKING_CHANGE_POSITION));
+  /**
+   * Applies the configured severities, drops rules that are off and separates errors from warnings
+   */
+  private buildResult(issues: ValidationError[], components?: TitleComponents): ValidationResult {
+    const reported: ValidationError[] = [];
+    for (const issue of issues) {
+      const severity = this.severities[issue.code] ?? issue.severity;
+      if (severity !== 'off') {
+        reported.push({ ...issue, severity });
       }
     }
+    const errors = reported.filter((issue) => issue.severity === 'error');
+    const warnings = reported.filter((issue) => issue.severity === 'warning');
 
-    return errors;
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      components,
+    };
   }
 
   /**
-   * Validates the description component
+   * Parses a title into its components, after the emoji prefix in emoji prefix mode
    */
-  private validateDescription(title: string, description: string): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    // Check for colon and space
-    if (!title.includes(': ')) {
-      errors.push(this.createError(ERROR_CODES.MISSING_SPACE_AFTER_COLON));
+  public parseTitle(title: string): TitleComponents | null {
+    const prefix = this.options.emojiPrefix ? parseEmojiPrefix(title) : undefined;
+    if (!prefix) {
+      return this.parseHeader(title);
     }
+    const components = this.parseHeader(title.substring(prefix.length));
+    return components && withEmoji(components, prefix);
+  }
 
-    // Check for multiple spaces after colon
-    if (/:\s{2,}/.test(title)) {
-      errors.push(this.createError(ERROR_CODES.MULTIPLE_SPACES_AFTER_COLON));
-    }
+  /**
+   * Parses a title with the custom title pattern when one is set, or as a Conventional Commits title
+   */
+  private parseHeader(title: string): TitleComponents | null {
+    const pattern = this.options.titlePattern;
+    return pattern ? this.parsePatternTitle(title, pattern) : this.parseConventionalTitle(title);
+  }
 
-    // Remove leading space if present (should be exactly one)
-    let cleanDescription = description;
-    if (cleanDescription.startsWith(' ')) {
-      cleanDescription = cleanDescription.substring(1);
+  /**
+   * Parses a title with a custom title pattern: the named groups of the match are the components,
+   * and a non-empty breaking group marks a breaking change
+   */
+  private parsePatternTitle(title: string, pattern: RegExp): TitleComponents | null {
+    const flags = pattern.flags.includes('d') ? pattern.flags : `${pattern.flags}d`;
+    const match = new RegExp(pattern.source, flags).exec(title) as IndexedMatch | null;
+    const description = match?.groups?.description;
+    if (!match || description === undefined) {
+      return null;
     }
 
-    // Check if description is empty
-    if (!cleanDescription || cleanDescription.trim().length === 0) {
-      errors.push(this.createError(ERROR_CODES.MISSING_DESCRIPTION));
-      return errors;
-    }
+    const groups = match.groups ?? {};
+    const indices = match.indices?.groups ?? {};
+    const span = (name: string): Span | undefined => {
+      const range = indices[name];
+      return range && { start: range[0], end: range[1] };
+    };
+    return {
+      type: groups.type ?? '',
+      scope: groups.scope,
+      ticket: groups.ticket,
+      isBreakingChange: (groups.breaking ?? '').length > 0,
+      description,
+      spans: {
+        type: span('type'),
+        scope: span('scope'),
+        ticket: span('ticket'),
+        breaking: groups.breaking ? span('breaking') : undefined,
+        description: span('description') ?? { start: title.length, end: title.length },
+      },
+    };
+  }
 
-    // Check for leading space in description (after the first space)
-    if (cleanDescription.startsWith(' ')) {
-      errors.push(this.createError(ERROR_CODES.DESCRIPTION_HAS_LEADING_SPACE));
-    }
+  /**
+   * Parses a Conventional Commits title into its components
+   */
+  private parseConventionalTitle(title: string): TitleComponents | null {
+    // Extract type (preserve case for validation)
+    const typeMatch = title.match(/^([a-zA-Z]+)/);
+    if (!typeMatch) return null;
+    const type = typeMatch[1];
 
-    // Check for trailing space in description
-    if (cleanDescription.endsWith(' ')) {
-      errors.push(this.createError(ERROR_CODES.DESCRIPTION_HAS_TRAILING_SPACE));
-    }
+    // Find colon
+    const colonIndex = title.indexOf(':');
+    if (colonIndex === -1) return null;
 
-    // Check description length
-    if (cleanDescription.length > this.maxDescriptionLength) {
-      errors.push({
-        code: ERROR_CODES.DESCRIPTION_TOO_LONG,
-        message: `Description must not exceed ${this.maxDescriptionLength} characters`,
-        example: ERROR_EXAMPLES[ERROR_CODES.DESCRIPTION_TOO_LONG],
-      });
-    }
+    // Extract everything before colon for analysis
+    const beforeColon = title.substring(0, colonIndex);
 
-    // Strict mode checks
-    if (this.strict) {
-      // Check that description starts with lowercase
-      const trimmedDescription = cleanDescription.trim();
-      if (trimmedDescription.length > 0 && !PATTERNS.descriptionStartsLowercase.test(trimmedDescription)) {
-        errors.push(this.createError(ERROR_CODES.DESCRIPTION_NOT_LOWERCASE));
-      }
+    // Extract scope (optional, allow empty for validation)
+    const scopeMatch = beforeColon.match(/\(([^)]*)\)/);
+    const scope = scopeMatch ? scopeMatch[1] : undefined;
 
-      // Check that description doesn't end with a period
-      if (PATTERNS.endsWithPeriod.test(trimmedDescription)) {
-        errors.push(this.createError(ERROR_CODES.DESCRIPTION_ENDS_WITH_PERIOD));
-      }
+    // Check for breaking change marker (only before colon)
+    const isBreakingChange = beforeColon.includes('!');
 
-      // Suggest imperative mood (not an error, just a suggestion)
-      // We check if the description starts with common non-imperative patterns
-      const firstWord = trimmedDescription.split(' ')[0].toLowerCase();
-      const nonImperativePatterns = /^(added|adds|adding|updated|updates|updating|fixed|fixes|fixing|removed|removes|removing|deleted|deletes|deleting)$/i;
-      if (nonImperativePatterns.test(firstWord)) {
-        errors.push(this.createError(ERROR_CODES.NON_IMPERATIVE_MOOD));
-      }
+    // Check for space before colon (invalid format: "feat :" or "feat(scope) :")
+    // Build expected prefix (allowing for wrong ! position for later validation)
+    const withoutExclamation = beforeColon.replace(/!/g, '');
+    const expectedWithoutExclamation = type + (scopeMatch ? scopeMatch[0] : '');
+    if (withoutExclamation !== expectedWithoutExclamation) {
+      return null;  // Something unexpected before colon (likely a space)
     }
 
-    return errors;
-  }
+    // Extract description (everything after ":" - don't trim to preserve spaces for validation)
+    let description = title.substring(colonIndex + 1);
 
-  /**
-   * Creates a validation error object
-   */
-  private createError(code: keyof typeof ERROR_CODES): ValidationError {
+    const exclamationIndex = beforeColon.indexOf('!');
+    const scopeStart = scopeMatch?.index !== undefined ? scopeMatch.index + 1 : undefined;
     return {
-      code: ERROR_CODES[code],
-      message: ERROR_MESSAGES[code],
-      example: ERROR_EXAMPLES[code],
+      type,
+      scope,
+      isBreakingChange,
+      description,
+      spans: {
+        type: { start: 0, end: type.length },
+        scope: scope !== undefined && scopeStart !== undefined
+          ? { start: scopeStart, end: scopeStart + scope.length }
+          : undefined,
+        breaking: isBreakingChange ? { start: exclamationIndex, end: exclamationIndex + 1 } : undefined,
+        colon: { start: colonIndex, end: colonIndex + 1 },
+        description: { start: colonIndex + 1, end: title.length },
+      },
     };
   }
 }
+
+/**
+ * Creates the parser of the titles read by the version bump and the changelog. Only the options
+ * that change how a title is parsed are used, and an emoji prefix is always read past, so that
+ * commits made with a gitmoji tool are counted too.
+ */
+export function createTitleParser(options: ValidatorOptions = {}): ConventionalCommitValidator {
+  return new ConventionalCommitValidator({ emojiPrefix: true, titlePattern: options.titlePattern });
+}